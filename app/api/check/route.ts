@@ -1,50 +1,88 @@
-import axios from "axios";
+import { fetchErrorLabel, httpFetchError, toFetchError } from "@/lib/crawler/errors";
+import { analyzeRedirectChain, followRedirects } from "@/lib/crawler/redirects";
+import { retryOptions } from "@/lib/crawler/retry";
+import { detectSoft404ForUrl, REDIRECT_HOME_VERDICT, SOFT_404_THRESHOLD } from "@/lib/crawler/soft404";
+import { classifyResponse, isBrokenStatus } from "@/lib/crawler/status";
+import { getProfile } from "@/lib/profiles";
 import { NextResponse } from "next/server";
 
+// `fetchError` says why a request failed (DNS, timeout, TLS, HTTP 5xx...); `retries` overrides the retry policy
 export async function POST(request: Request) {
-  const { url } = await request.json();
+  const { url, profile, retries } = await request.json();
+
+  let siteProfile;
   try {
-    const response = await axios.get(url, {
-      maxRedirects: 5,
-      validateStatus: () => true, // Resolve all statuses
-    });
+    siteProfile = getProfile(profile);
+  } catch (error) {
+    return NextResponse.json({ originalUrl: url, finalUrl: null, status: "Error", isBroken: true, error: (error as Error).message }, { status: 400 });
+  }
 
-    const finalUrl = response.request?.res?.responseUrl || url;
+  try {
+    // Every hop is recorded (status code + Location), not just where axios ended up
+    const chain = await followRedirects(url, { retry: retryOptions(retries !== undefined ? { retries: Number(retries) || 0 } : {}) });
+    const issues = analyzeRedirectChain(chain);
 
-    // Normalize URLs for comparison
-    const normalize = (u: string) => u.toLowerCase().replace(/\/+$/, "");
-    const originalNorm = normalize(url);
-    const finalNorm = normalize(finalUrl);
+    if (chain.loop) {
+      return NextResponse.json({ originalUrl: url, finalUrl: chain.finalUrl, status: "Redirect Loop", isBroken: true, chain, issues });
+    }
+    if (chain.finalStatus === null) {
+      return NextResponse.json({
+        originalUrl: url,
+        finalUrl: null,
+        status: chain.error ? fetchErrorLabel(chain.error) : "Network Error",
+        isBroken: true,
+        fetchError: chain.error,
+        chain,
+        issues,
+      });
+    }
 
     // Dynamic Home Detection
-    const homeNorm = normalize(new URL(url).origin);
-
-    let status = "OK";
-    let isBroken = false;
-
-    if (response.status === 404) {
-      status = "404 Not Found";
-      isBroken = true;
-    } else if (finalNorm === homeNorm && originalNorm !== homeNorm) {
-      status = "Redirected to Home";
-      isBroken = true;
-    } else if (response.status !== 200) {
-      status = `Status ${response.status}`;
-      isBroken = true;
+    const { status: linkStatus, label: status } = classifyResponse({
+      statusCode: chain.finalStatus,
+      originalUrl: url,
+      targetUrl: chain.finalUrl,
+      homeUrl: new URL(url).origin,
+    });
+    if (linkStatus === "soft-404") {
+      return NextResponse.json({ originalUrl: url, finalUrl: chain.finalUrl, status, isBroken: true, soft404: REDIRECT_HOME_VERDICT, chain, issues });
     }
 
+    // Content check: a 200 "Nothing found" page is a soft-404 too
+    if (linkStatus === "ok") {
+      const soft404 = await detectSoft404ForUrl(chain.finalUrl, siteProfile);
+      if (soft404 && soft404.confidence >= SOFT_404_THRESHOLD) {
+        return NextResponse.json({
+          originalUrl: url,
+          finalUrl: chain.finalUrl,
+          status: "Soft 404 (Content)",
+          isBroken: true,
+          soft404,
+          chain,
+          issues,
+        });
+      }
+    }
+
+    const isBroken = isBrokenStatus(linkStatus);
+
     return NextResponse.json({
       originalUrl: url,
-      finalUrl: finalUrl,
+      finalUrl: chain.finalUrl,
       status: status,
       isBroken: isBroken,
+      fetchError: httpFetchError(chain.finalStatus) ?? undefined,
+      chain,
+      issues,
     });
-  } catch (error: any) {
+  } catch (error) {
+    const fetchError = toFetchError(error);
     return NextResponse.json({
       originalUrl: url,
       finalUrl: null,
-      status: "Network Error",
+      status: fetchErrorLabel(fetchError),
       isBroken: true,
+      fetchError,
     });
   }
 }
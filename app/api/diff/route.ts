@@ -0,0 +1,58 @@
+import { diffCrawls, type DiffInput } from "@/lib/crawler/diff";
+import type { CrawlDiff, CrawlerState } from "@/lib/crawler/types";
+import { buildDiffMarkdown } from "@/lib/exporters/diff-markdown";
+import { getJob } from "@/lib/jobs/registry";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// A stored crawl (by job id) or a saved CrawlerState
+function resolveSide(value: unknown, label: unknown): DiffInput {
+  if (typeof value === "string") {
+    const job = getJob(value);
+    if (!job) throw new Error(`Job not found: ${value}`);
+    return {
+      label: typeof label === "string" && label ? label : `${job.options.startUrl} (${new Date(job.createdAt).toISOString()})`,
+      state: job.exportState(),
+    };
+  }
+  const state = value as CrawlerState | undefined;
+  if (!state || !Array.isArray(state.brokenLinks)) throw new Error("Expected a job id or a saved crawler state");
+  return { label: typeof label === "string" && label ? label : `Saved state (${state.visited?.length ?? 0} pages)`, state };
+}
+
+function respond(diff: CrawlDiff, format: string | null) {
+  if (format === "markdown") {
+    return new NextResponse(buildDiffMarkdown(diff), {
+      headers: { "Content-Type": "text/markdown; charset=utf-8", "Content-Disposition": 'attachment; filename="crawl-diff.md"' },
+    });
+  }
+  if (format === "json") {
+    return new NextResponse(JSON.stringify(diff, null, 2), {
+      headers: { "Content-Type": "application/json", "Content-Disposition": 'attachment; filename="crawl-diff.json"' },
+    });
+  }
+  return NextResponse.json(diff);
+}
+
+// Compare two crawls: newly broken and fixed links, new and removed pages, status and redirect target changes.
+// GET ?base=<job id>&head=<job id>. `format=markdown` or `format=json` downloads the diff.
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  try {
+    const diff = diffCrawls(resolveSide(searchParams.get("base") ?? undefined, null), resolveSide(searchParams.get("head") ?? undefined, null));
+    return respond(diff, searchParams.get("format"));
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
+
+// Same, with saved states: { base, head, baseLabel?, headLabel?, format? } where base/head are job ids or CrawlerStates
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    return respond(diffCrawls(resolveSide(body.base, body.baseLabel), resolveSide(body.head, body.headLabel)), body.format ?? null);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
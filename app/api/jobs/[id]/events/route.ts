@@ -0,0 +1,81 @@
+import { getJob } from "@/lib/jobs/registry";
+import type { JobEvent, JobState } from "@/lib/jobs/types";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Browsers wait this long before reconnecting
+const RETRY_MS = 2000;
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 15000;
+
+const isFinished = (state: JobState) => state === "completed" || state === "cancelled";
+
+const frame = (event: string, data: unknown, id?: string) =>
+  `${id !== undefined ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Live crawl events as Server-Sent Events: page-started, page-finished, broken-link and stats (see JobEventData).
+// Reconnecting with Last-Event-ID (or `?lastEventId=`) replays the events missed since then. Every connection then
+// gets the current stats (no id); it is named "reset" instead when missed events are no longer in the log, so the
+// viewer reloads the snapshot. The stream ends once the job is completed or cancelled.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const lastEventId = request.headers.get("last-event-id") ?? new URL(request.url).searchParams.get("lastEventId");
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled by the client
+        }
+      };
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      const missed = lastEventId ? job.events.since(lastEventId) : [];
+      (missed ?? []).forEach((event) => send(frame(event.type, event, event.id)));
+      const status = job.liveStatus();
+      send(frame(missed ? "stats" : "reset", { type: "stats", ...status }));
+      if (isFinished(status.state)) return close();
+
+      const unsubscribe = job.events.subscribe((event: JobEvent) => {
+        send(frame(event.type, event, event.id));
+        if (event.type === "stats" && isFinished(event.state)) close();
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      stop = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Unbuffered behind nginx
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import type { LinkStatus } from "@/lib/crawler/types";
+import { buildCsv } from "@/lib/exporters/csv";
+import { buildHtmlReport } from "@/lib/exporters/html-report";
+import { buildJunitXml } from "@/lib/exporters/junit";
+import { brokenLinksTable, crawlReportTables, pageInventoryTable, STATUS_SHEETS } from "@/lib/exporters/report-tables";
+import { buildSarif } from "@/lib/exporters/sarif";
+import { buildSitemapFiles } from "@/lib/exporters/sitemap-xml";
+import { buildXlsx } from "@/lib/exporters/xlsx";
+import { getJob } from "@/lib/jobs/registry";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string; format: string }> };
+
+const attachment = (name: string, content: string | Uint8Array<ArrayBuffer>, contentType: string, headers: Record<string, string> = {}) =>
+  new NextResponse(content, {
+    headers: { "Content-Type": contentType, "Content-Disposition": `attachment; filename="${name}"`, ...headers },
+  });
+
+// Downloadable exports of a job.
+// - sitemap: sitemap.xml of OK, non-redirecting HTML pages. `?lastmod=1` adds <lastmod> from Last-Modified headers,
+//   `?base=` sets where split parts will be hosted (default: the start URL's origin). Past 50,000 URLs sitemap.xml
+//   is an index; its parts are listed in X-Export-Parts and downloaded with `?part=sitemap-2.xml`.
+// - csv: `?report=broken` (default) one row per broken link and source page; `?report=pages` the page inventory
+//   (URL, status, depth, parent, link count), `&status=broken` for one status only.
+// - xlsx: both in one workbook, plus a sheet per status.
+// - html: a self-contained report for clients (health, counts, broken links by page, redirects, site tree).
+// - junit / sarif: for CI dashboards. JUnit has a test case per fetched URL, SARIF a result per broken link and source page.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id, format } = await params;
+  const job = getJob(id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const searchParams = new URL(request.url).searchParams;
+
+  try {
+    switch (format) {
+      case "sitemap": {
+        const withLastmod = searchParams.get("lastmod") === "1";
+        const entries = job.sitemapEntries().map((entry) => ({ url: entry.url, lastModified: withLastmod ? entry.lastModified : null }));
+        const files = buildSitemapFiles(entries, searchParams.get("base") || new URL(job.options.startUrl).origin);
+
+        const partName = searchParams.get("part");
+        const file = partName ? files.find((candidate) => candidate.name === partName) : files[0];
+        if (!file) return NextResponse.json({ error: `Unknown part: ${partName}` }, { status: 404 });
+
+        const parts = partName ? [] : files.slice(1).map((part) => part.name);
+        return attachment(file.name, file.content, "application/xml; charset=utf-8", parts.length > 0 ? { "X-Export-Parts": parts.join(",") } : {});
+      }
+      case "csv": {
+        const report = searchParams.get("report") ?? "broken";
+        if (report === "broken")
+          return attachment("broken-links.csv", buildCsv(brokenLinksTable(job.snapshot().brokenLinks)), "text/csv; charset=utf-8");
+        if (report !== "pages") return NextResponse.json({ error: `Unknown report: ${report}` }, { status: 404 });
+
+        const status = searchParams.get("status");
+        if (status && !STATUS_SHEETS.some(([known]) => known === status))
+          return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+        const pages = job.pageInventory().filter((page) => !status || page.status === (status as LinkStatus));
+        return attachment(status ? `pages-${status}.csv` : "pages.csv", buildCsv(pageInventoryTable(pages)), "text/csv; charset=utf-8");
+      }
+      case "xlsx": {
+        const workbook = buildXlsx(crawlReportTables(job.snapshot().brokenLinks, job.pageInventory()));
+        return attachment("crawl-report.xlsx", new Uint8Array(workbook), "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      }
+      case "html": {
+        const snapshot = job.snapshot();
+        const report = buildHtmlReport({
+          startUrl: job.options.startUrl,
+          crawledAt: job.createdAt,
+          generatedAt: Date.now(),
+          state: snapshot.state,
+          stats: snapshot.stats,
+          brokenLinks: snapshot.brokenLinks,
+          redirects: job.redirectReport(),
+          pages: job.pageInventory(),
+        });
+        return attachment(`link-audit-${new URL(job.options.startUrl).hostname}.html`, report, "text/html; charset=utf-8");
+      }
+      case "junit": {
+        const snapshot = job.snapshot();
+        const report = buildJunitXml([
+          {
+            startUrl: job.options.startUrl,
+            startedAt: snapshot.createdAt,
+            durationMs: snapshot.updatedAt - snapshot.createdAt,
+            pages: job.pageInventory(),
+            brokenLinks: snapshot.brokenLinks,
+            external: job.options.checkExternal ? job.externalReport() : undefined,
+            assets: job.options.checkAssets ? job.assetReport() : undefined,
+          },
+        ]);
+        return attachment("crawl-report.junit.xml", report, "application/xml; charset=utf-8");
+      }
+      case "sarif": {
+        const report = buildSarif([
+          {
+            startUrl: job.options.startUrl,
+            brokenLinks: job.snapshot().brokenLinks,
+            external: job.options.checkExternal ? job.externalReport() : undefined,
+            assets: job.options.checkAssets ? job.assetReport() : undefined,
+          },
+        ]);
+        return attachment("crawl-report.sarif", report, "application/sarif+json");
+      }
+      default:
+        return NextResponse.json({ error: `Unknown export format: ${format}` }, { status: 404 });
+    }
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { getJob } from "@/lib/jobs/registry";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string; report: string }> };
+
+// Reports computed from a job's stored pages and edges.
+// - sitemap: sitemap URLs nothing links to (orphans) + crawled pages missing from the sitemap
+// - redirects: every redirecting URL with its full chain and issues (loops, long chains, 302s)
+// - external: outbound links with their check result and every page they were found on
+// - assets: images, scripts, stylesheets and downloads with their check result and every page using them
+// - rules: the profile's URL rules in order, with how many URLs each kept out and a sample of them
+// - indexing: pages deduplicated against their canonical, noindex pages, and canonicals that are broken, redirect or chain,
+//   noindex pages linked from a menu or listed in the sitemap
+// - hreflang: alternate sets missing a self-reference or x-default, one-way, broken or redirected alternates, and pages/broken per language
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id, report } = await params;
+  const job = getJob(id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  try {
+    switch (report) {
+      case "sitemap":
+        return NextResponse.json(job.sitemapCoverage());
+      case "redirects":
+        return NextResponse.json({ redirects: job.redirectReport() });
+      case "external":
+        return NextResponse.json({ external: job.externalReport() });
+      case "assets":
+        return NextResponse.json({ assets: job.assetReport() });
+      case "rules":
+        return NextResponse.json({ rules: job.ruleReport() });
+      case "indexing":
+        return NextResponse.json(job.indexingReport());
+      case "hreflang":
+        return NextResponse.json(job.hreflangReport());
+      default:
+        return NextResponse.json({ error: `Unknown report: ${report}` }, { status: 404 });
+    }
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { getJob } from "@/lib/jobs/registry";
+import type { JobAction, SnapshotInclude } from "@/lib/jobs/types";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const SNAPSHOT_INCLUDES: string[] = ["siteMap", "results", "skipped"] satisfies SnapshotInclude[];
+
+// Job status. `?include=siteMap` adds the page tree, `?include=results` the flat page list,
+// `?include=skipped` the URLs that were not fetched (comma-separate to combine).
+// `?include=state` returns a saveable CrawlerState.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const include = (new URL(request.url).searchParams.get("include") ?? "").split(",");
+  if (include.includes("state")) return NextResponse.json(job.exportState());
+
+  return NextResponse.json(job.snapshot({ include: include.filter((part): part is SnapshotInclude => SNAPSHOT_INCLUDES.includes(part)) }));
+}
+
+// Controls: { action: "pause" | "resume" | "cancel" }
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+
+  const { action } = (await request.json()) as { action: JobAction };
+
+  if (action === "pause") job.pause();
+  else if (action === "resume") job.resume();
+  else if (action === "cancel") job.cancel();
+  else return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+
+  return NextResponse.json(job.snapshot());
+}
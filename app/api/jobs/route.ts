@@ -0,0 +1,79 @@
+import { createJob, DEFAULT_JOB_OPTIONS, listJobs } from "@/lib/jobs/registry";
+import type { CrawlJobOptions } from "@/lib/jobs/types";
+import { getProfile, withLanguages } from "@/lib/profiles";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// 0 is a valid choice for most limits (no retries, start page only), so only a missing value falls back to the default
+const numberOption = <T extends number | undefined>(value: unknown, fallback: T, min = 0): number | T =>
+  value === undefined ? fallback : Math.max(min, Number(value) || 0);
+
+// List all jobs (newest first)
+export async function GET() {
+  return NextResponse.json({ jobs: listJobs() });
+}
+
+// Start a new crawl job. `url` defaults to the profile's start URL.
+// Pass `state` (a saved CrawlerState) to resume an old crawl.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { state } = body;
+
+    let profile;
+    try {
+      profile = getProfile(body.profile || DEFAULT_JOB_OPTIONS.profile);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    const url = body.url || profile.startUrl;
+
+    // ["fr", "de"] or "fr,de"
+    const languages: string[] = (Array.isArray(body.languages) ? body.languages : String(body.languages ?? "").split(","))
+      .map((language: unknown) => String(language).trim())
+      .filter(Boolean);
+    try {
+      withLanguages(profile, languages);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+
+    for (const value of [url, body.sitemapUrl].filter(Boolean)) {
+      try {
+        new URL(value);
+      } catch {
+        return NextResponse.json({ error: `Invalid url: ${value}` }, { status: 400 });
+      }
+    }
+
+    const options: CrawlJobOptions = {
+      startUrl: url,
+      profile: profile.id,
+      maxPages: numberOption(body.maxPages, DEFAULT_JOB_OPTIONS.maxPages, 1),
+      maxDepth: numberOption(body.maxDepth, DEFAULT_JOB_OPTIONS.maxDepth),
+      concurrency: numberOption(body.concurrency, DEFAULT_JOB_OPTIONS.concurrency, 1),
+      strategy: body.strategy === "bfs" ? "bfs" : DEFAULT_JOB_OPTIONS.strategy,
+      respectRobots: body.respectRobots === undefined ? DEFAULT_JOB_OPTIONS.respectRobots : Boolean(body.respectRobots),
+      userAgent: body.userAgent || DEFAULT_JOB_OPTIONS.userAgent,
+      seedFromSitemap: Boolean(body.seedFromSitemap || body.sitemapUrl),
+      redirectHopLimit: numberOption(body.redirectHopLimit, DEFAULT_JOB_OPTIONS.redirectHopLimit),
+      checkExternal: Boolean(body.checkExternal),
+      checkAssets: Boolean(body.checkAssets),
+      retries: numberOption(body.retries, DEFAULT_JOB_OPTIONS.retries),
+      retryBaseDelayMs: numberOption(body.retryBaseDelayMs, DEFAULT_JOB_OPTIONS.retryBaseDelayMs),
+      hostConcurrency: numberOption(body.hostConcurrency, DEFAULT_JOB_OPTIONS.hostConcurrency, 1),
+      hostDelayMs: numberOption(body.hostDelayMs, DEFAULT_JOB_OPTIONS.hostDelayMs),
+      incremental: Boolean(body.incremental || body.incrementalFrom),
+      ...(body.sitemapUrl ? { sitemapUrl: body.sitemapUrl } : {}),
+      ...(languages.length > 0 ? { languages } : {}),
+      ...(body.incrementalFrom ? { incrementalFrom: String(body.incrementalFrom) } : {}),
+    };
+
+    const job = createJob(options, state);
+    return NextResponse.json(job.snapshot(), { status: 201 });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
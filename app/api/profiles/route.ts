@@ -0,0 +1,13 @@
+import { listProfiles } from "@/lib/profiles";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+// Site profiles available for crawls (one JSON file per site in /profiles)
+export async function GET() {
+  try {
+    return NextResponse.json({ profiles: listProfiles() });
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -1,15 +1,32 @@
+import { externalLinkKey, isCheckableUrl } from "@/lib/crawler/external";
+import { extractRawLinks } from "@/lib/crawler/link-context";
+import type { LinkContext } from "@/lib/crawler/types";
+import { canonicalizeUrl } from "@/lib/crawler/url";
+import { compileUrlRules, evaluateUrl, type UrlRule } from "@/lib/crawler/url-rules";
+import { getNormalizationRules, getProfile, isAllowedHost, profileUrlRules } from "@/lib/profiles";
+import { isLeafPage, linkSelector, removeNoise } from "@/lib/profiles/dom";
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { NextResponse } from "next/server";
 
+// Files are dead ends for this scraper (checked after the profile's rules)
+const FILE_RULES: UrlRule[] = [{ action: "exclude", name: "Files", glob: "**/*.{jpg,jpeg,png,gif,webp,pdf,css,js}" }];
+
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    // includeExternal: also return outbound links (other hosts) as `externalLinks`
+    const { url, profile: profileId, includeExternal } = await request.json();
+    let profile;
+    try {
+      profile = getProfile(profileId);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
     const urlObj = new URL(url);
+    const urlRules = compileUrlRules([...profileUrlRules(profile), ...FILE_RULES]);
 
-    // 1. GATEKEEPER: Block Foreign Languages & Files Immediately
-    const path = urlObj.pathname.toLowerCase();
-    if (/^\/[a-z]{2}\//.test(path) || path.match(/\.(jpg|jpeg|png|gif|webp|pdf|css|js)$/i)) {
+    // 1. GATEKEEPER: Block Excluded URLs (foreign languages, files...) Immediately
+    if (!evaluateUrl(urlRules, urlObj).allowed) {
       return NextResponse.json({ success: true, isFinalPage: true, total: 0, links: [] });
     }
 
@@ -27,52 +44,20 @@ export async function POST(request: Request) {
     // =========================================================
     // 🛑 STOP LOGIC: Leaf Node Detection
     // =========================================================
-    // Based on Page 3, 5, 6: These elements indicate a final coloring page
-    const isLeafNode =
-      $("#btndownload").length > 0 || $("#printButton").length > 0 || $("#canvasDiv").length > 0 || $("body").hasClass("single-attachment");
-
-    if (isLeafNode) {
+    // The profile's leaf selectors mark a final page (download button, print button, attachment page...)
+    if (isLeafPage($, profile)) {
       return NextResponse.json({ success: true, isFinalPage: true, total: 0, links: [] });
     }
 
     // =========================================================
-    // 🧹 SURGICAL REMOVAL (Based on your provided HTML)
+    // 🧹 SURGICAL REMOVAL
     // =========================================================
 
-    // 1. Remove Navigation & Header (Page 1, 2, 4)
-    $(".header").remove();
-    $(".navigation-wrapper").remove();
-    $(".navbar").remove();
-    $(".breadcrumb").remove(); // Breadcrumbs create duplicate back-links
-
-    // 2. Remove Sidebars (Page 2, 5)
-    // The "Recently Added" and "Categories" lists are inside #post-widget and .widget
-    $("#post-widget").remove();
-    $(".widget").remove();
-
-    // 3. Remove Ads (Page 1, 4)
-    $(".sideadds").remove();
-    $(".ads-min-1366").remove();
-    $(".ads-min-768").remove();
-    $(".search_ads").remove();
-    $(".footer-addapex-adds").remove();
-    $(".inbetween-mobile").remove();
-    $(".inbetween_desktop_full_page").remove();
-
-    // 4. Remove Related Content (Page 2, 3, 5)
+    // 1. Site noise: navigation, sidebars, ads, related content, footer & popups (from the site profile)
     // We don't want to crawl "Related" because it creates circular loops.
-    // We only want the main list of the current category.
-    $("#related_colorings").remove();
-    $("#sp-rl").remove();
-
-    // 5. Remove Footer & Popups (All Pages)
-    $(".footer-container").remove();
-    $(".wpml-ls-statics-footer").remove(); // Language flags
-    $("#toTop").remove();
-    $("#NewsletterModal").remove();
-    $("#exitpopup-modal").remove();
-
-    // 6. Remove Scripts/Iframes (Technical noise)
+    removeNoise($, profile);
+
+    // 2. Remove Scripts/Iframes (Technical noise)
     $("script").remove();
     $("iframe").remove();
     $("noscript").remove();
@@ -81,51 +66,48 @@ export async function POST(request: Request) {
     // =========================================================
     // 🟢 TARGETED EXTRACTION
     // =========================================================
-    const uniqueLinks = new Set<string>();
-    const targetHostname = urlObj.hostname.replace("www.", "");
-
-    // Strategy:
-    // 1. If we see a specific Gallery Grid (.gallery-post-grid), prefer that.
-    // 2. If we see the Main Content Column (.column-main-blog), prefer that.
-    // 3. Fallback to body.
-    let selector = "body a";
-
-    if ($(".gallery-post-grid").length > 0) {
-      selector = ".gallery-post-grid a"; // Precision Mode for Categories
-    } else if ($(".column-main-blog").length > 0) {
-      selector = ".column-main-blog a"; // Precision Mode for Home
-    }
-
-    $(selector).each((_, element) => {
-      let href = $(element).attr("href");
-      if (href) {
-        href = href.trim();
-        if (href.startsWith("javascript:") || href.startsWith("#") || href === "") return;
-
-        try {
-          const absoluteUrlObj = new URL(href, url);
-          const linkHostname = absoluteUrlObj.hostname.replace("www.", "");
-          const linkPath = absoluteUrlObj.pathname.toLowerCase();
-
-          // Double Check Filters
-          if (linkPath.match(/\.(jpg|jpeg|png|gif|webp|pdf)$/i)) return;
-          if (/^\/[a-z]{2}\//.test(linkPath)) return;
-
-          // Strict Domain Check
-          if (linkHostname.includes(targetHostname)) {
-            uniqueLinks.add(absoluteUrlObj.href);
-          }
-        } catch (e) {}
-      }
+    // Keyed by canonical URL so "/Page/" and "/page" come back once (repeats are counted)
+    const uniqueLinks = new Map<string, LinkContext>();
+    const externalLinks = new Set<string>();
+    const rules = getNormalizationRules(profile);
+    const targetHostname = urlObj.hostname.replace(/^www\./, "");
+
+    // Strategy: prefer the first of the profile's content areas present on the page
+    // (e.g. the gallery grid on categories, the main column on home), fallback to body.
+    const selector = linkSelector($, profile);
+
+    extractRawLinks($, selector).forEach(({ href, ...context }) => {
+      if (href.startsWith("javascript:") || href.startsWith("#") || href === "") return;
+
+      try {
+        const absoluteUrlObj = new URL(href, url);
+        const linkHostname = absoluteUrlObj.hostname.replace(/^www\./, "");
+
+        // Double Check Filters (same rules as the gatekeeper)
+        if (!evaluateUrl(urlRules, absoluteUrlObj).allowed) return;
+
+        // Strict Domain Check (same host as the page, or one the profile allows)
+        if (linkHostname === targetHostname || isAllowedHost(profile, linkHostname)) {
+          const key = canonicalizeUrl(absoluteUrlObj.href, rules);
+          const seen = uniqueLinks.get(key);
+          if (seen) seen.occurrences++;
+          else uniqueLinks.set(key, { url: absoluteUrlObj.href, ...context, occurrences: 1 });
+        } else if (includeExternal && isCheckableUrl(absoluteUrlObj)) {
+          externalLinks.add(externalLinkKey(absoluteUrlObj.href));
+        }
+      } catch (e) {}
     });
 
-    const extractedLinks = Array.from(uniqueLinks);
+    const extractedLinks = Array.from(uniqueLinks.values(), (link) => link.url);
 
     return NextResponse.json({
       success: true,
       isFinalPage: false,
       total: extractedLinks.length,
       links: extractedLinks,
+      // Same order as `links`
+      linkContexts: Array.from(uniqueLinks.values()),
+      ...(includeExternal ? { externalLinks: Array.from(externalLinks) } : {}),
     });
   } catch (error: any) {
     return NextResponse.json({ error: error.message }, { status: 500 });
@@ -1,23 +1,27 @@
+import { canonicalizeUrl } from "@/lib/crawler/url";
+import { compileUrlRules, evaluateUrl, type UrlRule } from "@/lib/crawler/url-rules";
+import { getNormalizationRules, getProfile, isAllowedHost, profileUrlRules } from "@/lib/profiles";
+import { isLeafPage, removeNoise } from "@/lib/profiles/dom";
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { NextResponse } from "next/server";
 
+// Files are dead ends for this scraper (checked after the profile's rules)
+const FILE_RULES: UrlRule[] = [{ action: "exclude", name: "Image and PDF files", glob: "**/*.{jpg,jpeg,png,gif,webp,svg,pdf}" }];
+
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    const { url, profile: profileId } = await request.json();
+    const profile = getProfile(profileId);
 
     const urlObj = new URL(url);
-    const pathCheck = urlObj.pathname.toLowerCase();
+    const urlRules = compileUrlRules([...profileUrlRules(profile), ...FILE_RULES]);
 
     // =========================================================
-    // 🛡️ GATEKEEPER: Block Non-English Inputs
+    // 🛡️ GATEKEEPER: Block Excluded Inputs
     // =========================================================
-    // We now use a Regex to block ANY 2-letter language code at the start.
-    // This blocks /fr/, /de/, /pt/, /es/, /it/, /ru/, etc.
-    // It will NOT block /category/, /games/, etc. because they are longer than 2 letters.
-    const isForeignLanguage = /^\/[a-z]{2}\//.test(pathCheck);
-
-    if (isForeignLanguage) {
+    // The profile's URL rules skip language folders (/fr/, /de/, /pt/, ...), excluded paths and junk query strings
+    if (!evaluateUrl(urlRules, urlObj).allowed) {
       return NextResponse.json({
         success: true,
         isFinalPage: true, // Treat as dead end
@@ -38,18 +42,13 @@ export async function POST(request: Request) {
     // =========================================================
     // 🧹 NOISE REMOVAL
     // =========================================================
-    // Remove Standard Elements
-    $(".header, .navigation-wrapper, .footer-container, #toTop").remove();
-    $("#post-widget, .widget, .newpost, .right_col, .left_col").remove();
-    $("#related_colorings, #sp-rl").remove();
-
-    // Remove Language Switchers (WPML)
-    $(".wpml-ls-statics-footer, .wpml-ls, .wpml-ls-legacy-list-horizontal").remove();
+    // Headers, sidebars, related posts, language switchers (from the site profile)
+    removeNoise($, profile);
 
     // =========================================================
     // 🛑 STOP LOGIC: Detect "Final Page"
     // =========================================================
-    const isFinalPage = $("#btndownload").length > 0 || $("body").hasClass("single-attachment");
+    const isFinalPage = isLeafPage($, profile);
 
     if (isFinalPage) {
       return NextResponse.json({ success: true, isFinalPage: true, total: 0, links: [] });
@@ -58,8 +57,10 @@ export async function POST(request: Request) {
     // =========================================================
     // 🟢 EXTRACT LINKS
     // =========================================================
-    const uniqueLinks = new Set<string>();
-    const targetHostname = urlObj.hostname.replace("www.", "");
+    // Keyed by canonical URL so "/Page/" and "/page" come back once
+    const uniqueLinks = new Map<string, string>();
+    const rules = getNormalizationRules(profile);
+    const targetHostname = urlObj.hostname.replace(/^www\./, "");
 
     $("body a").each((_, element) => {
       let href = $(element).attr("href");
@@ -70,29 +71,23 @@ export async function POST(request: Request) {
         try {
           const absoluteUrlObj = new URL(href, url);
           const absoluteUrl = absoluteUrlObj.href;
-          const linkHostname = absoluteUrlObj.hostname.replace("www.", "");
-          const linkPath = absoluteUrlObj.pathname.toLowerCase();
-
-          // 🛡️ FILTER 1: Strict Language Block
-          // Checks if the link starts with /fr/, /de/, /pt/, /es/, etc.
-          if (/^\/[a-z]{2}\//.test(linkPath)) {
-            return;
-          }
+          const linkHostname = absoluteUrlObj.hostname.replace(/^www\./, "");
 
-          // 🛡️ FILTER 2: Block Image Files & Directories
-          if (linkPath.includes("/images/") || linkPath.match(/\.(jpg|jpeg|png|gif|webp|svg|pdf)$/i)) {
+          // 🛡️ FILTER: Language folders, excluded directories, image files
+          if (!evaluateUrl(urlRules, absoluteUrlObj).allowed) {
             return;
           }
 
-          // Strict Domain Check
-          if (linkHostname.includes(targetHostname)) {
-            uniqueLinks.add(absoluteUrl);
+          // Strict Domain Check (same host as the page, or one the profile allows)
+          if (linkHostname === targetHostname || isAllowedHost(profile, linkHostname)) {
+            const key = canonicalizeUrl(absoluteUrl, rules);
+            if (!uniqueLinks.has(key)) uniqueLinks.set(key, absoluteUrl);
           }
         } catch (e) {}
       }
     });
 
-    const extractedLinks = Array.from(uniqueLinks);
+    const extractedLinks = Array.from(uniqueLinks.values());
 
     return NextResponse.json({
       success: true,
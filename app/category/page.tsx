@@ -1,9 +1,16 @@
 "use client";
 
-import axios from "axios";
+import { FetchErrorBadge } from "@/components/fetch-error";
+import { HostRateBadge } from "@/components/host-rate";
+import { LinkSourcesView } from "@/components/link-context";
+import { Soft404Confidence } from "@/components/soft404-confidence";
+import { useCrawlJob } from "@/hooks/use-crawl-job";
+import type { BrokenReportItem, LinkStatus } from "@/lib/crawler/types";
+import type { SkippedUrl } from "@/lib/jobs/types";
 import {
   Activity,
   AlertTriangle,
+  Ban,
   Bug,
   ChevronDown,
   ChevronRight,
@@ -18,31 +25,9 @@ import {
   Ruler,
   ShieldCheck,
 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useMemo, useState } from "react";
 
 // --- TYPES ---
-type LinkStatus = "ok" | "broken" | "soft-404" | "redirect" | "error" | "pending";
-
-interface BrokenReportItem {
-  brokenLink: string;
-  redirectedTo: string | null;
-  foundOnPage: string;
-  status: LinkStatus;
-}
-
-interface CrawlerState {
-  queue: QueueItem[];
-  visited: string[];
-  brokenLinks: BrokenReportItem[];
-}
-
-interface LiveScanItem {
-  url: string;
-  foundCount: number;
-  status: LinkStatus;
-  depth: number;
-}
-
 interface CategoryNode {
   name: string;
   fullUrl?: string;
@@ -51,166 +36,42 @@ interface CategoryNode {
   count: number;
 }
 
-interface QueueItem {
-  url: string;
-  parent: string | null;
-  depth: number; // NEW: Track depth
-}
-
-// --- HELPER: STRICT URL NORMALIZATION ---
-const normalizeUrl = (url: string): string => {
-  try {
-    const urlObj = new URL(url);
-    let cleanPath = urlObj.pathname.toLowerCase();
-    if (cleanPath.endsWith("/") && cleanPath.length > 1) {
-      cleanPath = cleanPath.slice(0, -1);
-    }
-    return `${urlObj.origin}${cleanPath}`;
-  } catch (e) {
-    return url;
-  }
-};
+// --- CONFIGURATION ---
+const START_URL = "https://coloringonly.com";
+const MAX_CONCURRENCY = 15;
+const MAX_DEPTH = 5; // THE BREAKER: Stop digging after 5 levels
 
 export default function Crawler() {
-  const [isRunning, setIsRunning] = useState(false);
-  const [activeWorkers, setActiveWorkers] = useState(0);
-  const [liveFeed, setLiveFeed] = useState<LiveScanItem[]>([]);
-  const [activeTab, setActiveTab] = useState<"tree" | "issues">("tree");
-  const [tick, setTick] = useState(0);
-
-  // --- CONFIGURATION ---
-  const MAX_CONCURRENCY = 15;
-  const MAX_DEPTH = 5; // THE BREAKER: Stop digging after 5 levels
-
-  // --- REFS ---
-  // Initial Queue Item starts at Depth 0
-  const queue = useRef<QueueItem[]>([{ url: "https://coloringonly.com", parent: null, depth: 0 }]);
-  const visited = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-
-  // Registry to block duplicates
-  const queuedRegistry = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-
-  const brokenLinks = useRef<BrokenReportItem[]>([]);
-
-  const [stats, setStats] = useState({
-    queued: 1,
-    scanned: 0,
-    broken: 0,
-    soft404: 0,
-    ok: 0,
-    skipped: 0,
+  const [activeTab, setActiveTab] = useState<"tree" | "issues" | "robots">("tree");
+  // Override for auditing our own staging sites (applies to the next START)
+  const [ignoreRobots, setIgnoreRobots] = useState(false);
+
+  // The crawl itself runs server-side; this page only views the job
+  const { job, isRunning, canResume, start, pause, resume } = useCrawlJob({
+    storageKey: "crawler-job:category",
+    include: ["siteMap", "skipped"],
+    pollMs: 2000,
   });
 
-  // --- CRAWL ENGINE ---
-  const crawlStep = useCallback(async () => {
-    if (queue.current.length === 0) {
-      setIsRunning(false);
-      return;
-    }
-
-    // DFS Strategy
-    const currentItem = queue.current.shift();
-    if (!currentItem) return;
-
-    try {
-      setActiveWorkers((prev) => prev + 1);
-
-      const { data } = await axios.post("/api/crawl", { url: currentItem.url });
-
-      setLiveFeed((prev) =>
-        [
-          {
-            url: currentItem.url,
-            foundCount: data.links?.length || 0,
-            status: data.status,
-            depth: currentItem.depth,
-          },
-          ...prev,
-        ].slice(0, 10)
-      );
-
-      // 1. REPORT ISSUES
-      if (data.status === "broken" || data.status === "soft-404" || data.status === "error") {
-        brokenLinks.current.push({
-          brokenLink: currentItem.url,
-          redirectedTo: data.redirectLocation || null,
-          foundOnPage: currentItem.parent ? "Parent in Tree" : "ROOT",
-          status: data.status,
-        });
-      }
-
-      const foundLinks = data.links || [];
-
-      // 2. DISCOVERY & DEDUPLICATION LOGIC
-      if ((data.status === "ok" || data.status === "redirect") && !data.isLeaf) {
-        const newItems: QueueItem[] = [];
-        let skippedCount = 0;
-
-        // ** THE DEPTH BREAKER **
-        // Only look for children if we haven't hit the limit
-        if (currentItem.depth < MAX_DEPTH) {
-          foundLinks.forEach((rawLink: string) => {
-            const cleanLink = normalizeUrl(rawLink);
-
-            if (!visited.current.has(cleanLink) && !queuedRegistry.current.has(cleanLink)) {
-              queuedRegistry.current.add(cleanLink);
-              newItems.push({
-                url: rawLink,
-                parent: currentItem.url,
-                depth: currentItem.depth + 1, // INCREMENT DEPTH
-              });
-            } else {
-              skippedCount++;
-            }
-          });
-
-          // Add valid new items to front (DFS)
-          if (newItems.length > 0) {
-            queue.current.unshift(...newItems);
-          }
-        }
-
-        stats.skipped += skippedCount;
-      }
-
-      visited.current.add(normalizeUrl(currentItem.url));
-
-      setStats((prev) => ({
-        ...prev,
-        queued: queue.current.length,
-        scanned: visited.current.size,
-        ok: prev.ok + (data.status === "ok" ? 1 : 0),
-        broken: brokenLinks.current.filter((i) => i.status !== "soft-404").length,
-        soft404: brokenLinks.current.filter((i) => i.status === "soft-404").length,
-      }));
-    } catch (err) {
-      // Log error
-    } finally {
-      setActiveWorkers((prev) => prev - 1);
-    }
-  }, []);
-
-  // --- LOOP ---
-  useEffect(() => {
-    if (!isRunning) return;
-    const timer = setInterval(() => {
-      if (activeWorkers < MAX_CONCURRENCY && queue.current.length > 0) {
-        crawlStep();
-      }
-    }, 20);
-    const uiTimer = setInterval(() => setTick((t) => t + 1), 2000);
-    return () => {
-      clearInterval(timer);
-      clearInterval(uiTimer);
-    };
-  }, [isRunning, activeWorkers, crawlStep]);
+  const stats = job?.stats ?? { queued: 1, visited: 0, broken: 0, soft404: 0, ok: 0, skipped: 0, robotsSkipped: 0 };
+  const activeWorkers = job?.activeWorkers ?? 0;
+  const liveFeed = (job?.feed ?? []).slice(0, 10);
+  const brokenLinks = job?.brokenLinks ?? [];
+  const siteMap = job?.siteMap;
+  const robotsSkipped = (job?.skippedUrls ?? []).filter((item) => item.reason === "robots");
+
+  const toggleRunning = () => {
+    if (isRunning) pause();
+    else if (canResume) resume();
+    else start({ url: START_URL, concurrency: MAX_CONCURRENCY, maxDepth: MAX_DEPTH, strategy: "dfs", respectRobots: !ignoreRobots });
+  };
 
   // --- TREE BUILDER ---
   const categoryTree = useMemo(() => {
     const root: CategoryNode = { name: "coloringonly.com", children: {}, count: 0 };
-    const allPages = Array.from(visited.current);
+    const allPages = Object.values(siteMap ?? {}).filter((node) => node.status !== "pending");
 
-    allPages.forEach((url) => {
+    allPages.forEach(({ url, status }) => {
       try {
         const urlObj = new URL(url);
         const parts = urlObj.pathname.split("/").filter((p) => p.length > 0);
@@ -224,18 +85,19 @@ export default function Crawler() {
 
           if (index === parts.length - 1) {
             currentNode.fullUrl = url;
+            currentNode.status = status;
           } else {
             currentNode.count++;
           }
         });
-      } catch (e) {}
+      } catch {}
     });
     return root;
-  }, [tick]);
+  }, [siteMap]);
 
   // --- EXPORT ---
   const downloadReport = () => {
-    const blob = new Blob([JSON.stringify(brokenLinks.current, null, 2)], { type: "application/json" });
+    const blob = new Blob([JSON.stringify(brokenLinks, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
@@ -255,29 +117,42 @@ export default function Crawler() {
               <h1 className="text-lg font-bold text-slate-800">ColoringOnly Category Scanner</h1>
               {/* Health Bar */}
               <div className="w-48 h-1.5 bg-slate-100 rounded-full overflow-hidden flex mt-1">
-                <div className="bg-emerald-500 h-full" style={{ width: `${(stats.ok / (stats.scanned || 1)) * 100}%` }}></div>
-                <div className="bg-red-500 h-full" style={{ width: `${(stats.broken / (stats.scanned || 1)) * 100}%` }}></div>
+                <div className="bg-emerald-500 h-full" style={{ width: `${(stats.ok / (stats.visited || 1)) * 100}%` }}></div>
+                <div className="bg-red-500 h-full" style={{ width: `${(stats.broken / (stats.visited || 1)) * 100}%` }}></div>
               </div>
             </div>
           </div>
 
           <div className="flex gap-3 text-xs font-medium text-slate-500">
             <span className="px-2 py-1 bg-slate-100 rounded">Queue: {stats.queued}</span>
-            <span className="px-2 py-1 bg-emerald-50 text-emerald-700 rounded border border-emerald-100">{stats.scanned} Pages</span>
+            <span className="px-2 py-1 bg-emerald-50 text-emerald-700 rounded border border-emerald-100">{stats.visited} Pages</span>
             {/* Skipped Counter */}
             <span className="px-2 py-1 bg-blue-50 text-blue-700 rounded border border-blue-100 flex items-center gap-1">
               <ShieldCheck size={12} /> {stats.skipped} Skipped
             </span>
+            {/* Robots Counter */}
+            <span className="px-2 py-1 bg-amber-50 text-amber-700 rounded border border-amber-100 flex items-center gap-1">
+              <Ban size={12} /> {job?.options.respectRobots === false ? "Robots off" : `${stats.robotsSkipped} Robots`}
+            </span>
             <span className="px-2 py-1 bg-red-50 text-red-700 rounded border border-red-100">{stats.broken} Broken</span>
+            {job && job.hostRates.length > 0 && (
+              <span className="px-2 py-1 bg-slate-100 rounded">
+                <HostRateBadge rates={job.hostRates} />
+              </span>
+            )}
           </div>
 
-          <div className="flex gap-2">
+          <div className="flex gap-2 items-center">
+            <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none" title="Crawl pages robots.txt disallows">
+              <input type="checkbox" checked={ignoreRobots} onChange={(e) => setIgnoreRobots(e.target.checked)} disabled={isRunning || canResume} />
+              Ignore robots.txt
+            </label>
             <button onClick={downloadReport} className="btn-secondary text-red-600 bg-red-50 border-red-200">
               <FileWarning size={14} /> Defects
             </button>
             <div className="w-px h-8 bg-slate-200 mx-1"></div>
             <button
-              onClick={() => setIsRunning(!isRunning)}
+              onClick={toggleRunning}
               className={`px-5 py-2 rounded-lg font-bold text-white flex items-center gap-2 transition ${
                 isRunning ? "bg-amber-500" : "bg-emerald-600"
               }`}
@@ -341,7 +216,13 @@ export default function Crawler() {
                   onClick={() => setActiveTab("issues")}
                   className={`text-sm font-bold flex items-center gap-2 ${activeTab === "issues" ? "text-red-600" : "text-slate-400"}`}
                 >
-                  <AlertTriangle size={16} /> Broken Links ({brokenLinks.current.length})
+                  <AlertTriangle size={16} /> Broken Links ({brokenLinks.length})
+                </button>
+                <button
+                  onClick={() => setActiveTab("robots")}
+                  className={`text-sm font-bold flex items-center gap-2 ${activeTab === "robots" ? "text-amber-600" : "text-slate-400"}`}
+                >
+                  <Ban size={16} /> Blocked by robots.txt ({robotsSkipped.length})
                 </button>
               </div>
             </div>
@@ -353,8 +234,10 @@ export default function Crawler() {
                     <CategoryNodeItem key={node.name} node={node} depth={0} />
                   ))}
                 </div>
+              ) : activeTab === "issues" ? (
+                <IssuesList issues={brokenLinks} />
               ) : (
-                <IssuesList issues={brokenLinks.current} />
+                <RobotsList items={robotsSkipped} />
               )}
             </div>
           </div>
@@ -424,9 +307,35 @@ const IssuesList = ({ issues }: { issues: BrokenReportItem[] }) => {
             </div>
             <div className="text-slate-500">
               Status: <span className="uppercase font-bold">{item.status}</span>
+              {item.soft404 && (
+                <span className="ml-2">
+                  <Soft404Confidence verdict={item.soft404} />
+                </span>
+              )}
             </div>
+            {item.error && <FetchErrorBadge error={item.error} />}
             {item.redirectedTo && <div className="text-blue-600 mt-1">→ Redirects to: {item.redirectedTo}</div>}
+            <div className="mt-2 font-mono">
+              <LinkSourcesView sources={item.sources} fallback="Start URL" />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const RobotsList = ({ items }: { items: SkippedUrl[] }) => {
+  if (items.length === 0) return <div className="text-center text-slate-400 mt-10">Nothing blocked by robots.txt.</div>;
+
+  return (
+    <div className="space-y-1">
+      {items.map((item) => (
+        <div key={item.url} className="text-xs p-2 bg-amber-50 border border-amber-100 rounded">
+          <div className="font-mono text-amber-800 truncate" title={item.url}>
+            {item.url}
           </div>
+          {item.source && <div className="text-slate-400 truncate">Found on: {item.source}</div>}
         </div>
       ))}
     </div>
@@ -7,169 +7,85 @@ import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Activity, AlertOctagon, Copy, FileDown, GlobeLock, LayoutList, Loader2, Play, Search, StopCircle } from "lucide-react";
-import { useRef, useState } from "react";
-
-// Data Structure
-type CrawlResult = {
-  url: string;
-  status: "queued" | "crawling" | "active" | "final" | "broken";
-  redirectUrl?: string;
-  source?: string;
+import { useCrawlJob } from "@/hooks/use-crawl-job";
+import type { CrawlResult, LiveScanItem } from "@/lib/crawler/types";
+import type { SiteProfile } from "@/lib/profiles/types";
+import axios from "axios";
+import {
+  Activity,
+  AlertOctagon,
+  Copy,
+  FileCode,
+  FileDown,
+  FileSpreadsheet,
+  GlobeLock,
+  LayoutList,
+  Loader2,
+  Play,
+  Search,
+  StopCircle,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+
+const MAX_CONCURRENCY = 10;
+
+// Map a live feed entry onto the clean crawler's statuses
+const toLogStatus = ({ status, isLeaf }: LiveScanItem): CrawlResult["status"] => {
+  if (status === "broken" || status === "soft-404" || status === "error") return "broken";
+  return isLeaf ? "final" : "active";
 };
 
 export default function CleanCrawlerPage() {
   // CONFIG
   const [startUrl, setStartUrl] = useState("https://coloringonly.com");
   const [maxPages, setMaxPages] = useState(10000);
+  const [profiles, setProfiles] = useState<SiteProfile[]>([]);
+  const [profileId, setProfileId] = useState("coloringonly");
+  const [sitemapLastmod, setSitemapLastmod] = useState(true);
+
+  useEffect(() => {
+    axios
+      .get<{ profiles: SiteProfile[] }>("/api/profiles")
+      .then(({ data }) => setProfiles(data.profiles))
+      .catch(() => setProfiles([]));
+  }, []);
+
+  const selectProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find((p) => p.id === id);
+    if (profile) setStartUrl(profile.startUrl);
+  };
 
-  // STATE & REFS
-  const resultsRef = useRef<Map<string, CrawlResult>>(new Map());
-  const queueRef = useRef<string[]>([]);
-  const visitedRef = useRef<Set<string>>(new Set());
-  const shouldStop = useRef(false);
-
-  // UI STATE
-  const [resultsMap, setResultsMap] = useState<Map<string, CrawlResult>>(new Map());
-  const [queueCount, setQueueCount] = useState(0);
-  const [isCrawling, setIsCrawling] = useState(false);
-  const [processedCount, setProcessedCount] = useState(0);
+  // The crawl itself runs server-side; this page only views the job
+  const {
+    job,
+    isRunning: isCrawling,
+    start,
+    cancel,
+    downloadExport,
+  } = useCrawlJob({
+    storageKey: "crawler-job:clean",
+    include: ["results"],
+    pollMs: 2000,
+  });
+
+  const results = job?.results ?? [];
+  const processedCount = job?.stats.visited ?? 0;
+  const queueCount = job?.stats.queued ?? 0;
+  const liveLog: CrawlResult[] = (job?.feed ?? []).map((item) => ({ url: item.url, status: toLogStatus(item) }));
 
   // STATS
-  const finalPages = Array.from(resultsMap.values()).filter((r) => r.status === "final");
-  const brokenLinks = Array.from(resultsMap.values()).filter((r) => r.status === "broken");
-  const activePages = Array.from(resultsMap.values()).filter((r) => r.status === "active");
-
-  const normalizeUrl = (urlStr: string) => {
-    try {
-      const u = new URL(urlStr);
-      return (u.origin + u.pathname.replace(/\/+$/, "") + u.search).toLowerCase();
-    } catch (e) {
-      return urlStr.toLowerCase();
-    }
-  };
+  const finalPages = results.filter((r) => r.status === "final");
+  const brokenLinks = results.filter((r) => r.status === "broken");
+  const activePages = results.filter((r) => r.status === "active");
 
   const startCrawl = async () => {
     if (!startUrl) return alert("Enter a URL");
-
-    shouldStop.current = false;
-    visitedRef.current = new Set();
-    resultsRef.current = new Map();
-    queueRef.current = [];
-
-    const normStart = normalizeUrl(startUrl);
-    visitedRef.current.add(normStart);
-
-    resultsRef.current.set(normStart, { url: startUrl, status: "queued", source: "Start" });
-    queueRef.current.push(startUrl);
-
-    setResultsMap(new Map(resultsRef.current));
-    setQueueCount(1);
-    setProcessedCount(0);
-    setIsCrawling(true);
-
-    processQueue();
-  };
-
-  const processQueue = async () => {
-    const BATCH_SIZE = 10;
-    let rootHostname = "";
     try {
-      rootHostname = new URL(startUrl).hostname.replace("www.", "");
-    } catch (e) {}
-
-    while (queueRef.current.length > 0 && !shouldStop.current) {
-      if (visitedRef.current.size > maxPages) {
-        shouldStop.current = true;
-        alert(`Limit reached (${maxPages}). Stopping.`);
-        break;
-      }
-
-      const batch = queueRef.current.splice(0, BATCH_SIZE);
-
-      batch.forEach((url) => updateResultRef(normalizeUrl(url), { status: "crawling" }));
-      syncUI();
-
-      const newLinksFound: string[] = [];
-
-      await Promise.all(
-        batch.map(async (currentUrl) => {
-          const normCurrent = normalizeUrl(currentUrl);
-
-          try {
-            // 1. CHECK STATUS
-            const checkRes = await fetch("/api/check", {
-              method: "POST",
-              body: JSON.stringify({ url: currentUrl }),
-            });
-            const checkData = await checkRes.json();
-
-            if (checkData.isBroken) {
-              updateResultRef(normCurrent, { status: "broken", redirectUrl: checkData.finalUrl });
-              return;
-            }
-            updateResultRef(normCurrent, { redirectUrl: checkData.finalUrl });
-
-            // 2. CLEAN SCRAPE
-            const scrapeRes = await fetch("/api/scrape-clean", {
-              method: "POST",
-              body: JSON.stringify({ url: currentUrl }),
-            });
-            const scrapeData = await scrapeRes.json();
-
-            if (scrapeData.isFinalPage) {
-              updateResultRef(normCurrent, { status: "final" });
-            } else {
-              updateResultRef(normCurrent, { status: "active" });
-
-              if (scrapeData.success && scrapeData.links.length > 0) {
-                scrapeData.links.forEach((rawLink: string) => {
-                  const normLink = normalizeUrl(rawLink);
-                  // Strict Domain Guard
-                  try {
-                    const linkHost = new URL(rawLink).hostname.replace("www.", "");
-                    if (linkHost !== rootHostname) return;
-                  } catch (e) {
-                    return;
-                  }
-
-                  if (!visitedRef.current.has(normLink)) {
-                    visitedRef.current.add(normLink);
-                    newLinksFound.push(rawLink);
-                    resultsRef.current.set(normLink, {
-                      url: rawLink,
-                      status: "queued",
-                      source: currentUrl,
-                    });
-                  }
-                });
-              }
-            }
-          } catch (e) {
-            updateResultRef(normCurrent, { status: "broken" });
-          }
-        })
-      );
-
-      if (newLinksFound.length > 0) {
-        queueRef.current.push(...newLinksFound);
-      }
-
-      setProcessedCount((prev) => prev + batch.length);
-      syncUI();
-      await new Promise((r) => setTimeout(r, 50));
+      await start({ url: startUrl, profile: profileId, maxPages, concurrency: MAX_CONCURRENCY, strategy: "bfs" });
+    } catch {
+      alert("Failed to start crawl");
     }
-    setIsCrawling(false);
-  };
-
-  const updateResultRef = (normUrl: string, updates: Partial<CrawlResult>) => {
-    const existing = resultsRef.current.get(normUrl);
-    if (existing) resultsRef.current.set(normUrl, { ...existing, ...updates });
-  };
-
-  const syncUI = () => {
-    setResultsMap(new Map(resultsRef.current));
-    setQueueCount(queueRef.current.length);
   };
 
   const handleCopy = (type: "final" | "broken" | "all") => {
@@ -196,6 +112,22 @@ export default function CleanCrawlerPage() {
         </div>
 
         <div className="flex gap-3 items-end w-full md:w-auto">
+          <div className="grid gap-1 w-36">
+            <label className="text-[10px] font-bold text-slate-400 uppercase">Site Profile</label>
+            <select
+              value={profileId}
+              onChange={(e) => selectProfile(e.target.value)}
+              disabled={isCrawling}
+              className="h-9 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs"
+            >
+              {profiles.length === 0 && <option value={profileId}>{profileId}</option>}
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
           <div className="grid gap-1 flex-1 md:w-80">
             <label className="text-[10px] font-bold text-slate-400 uppercase">Start URL</label>
             <Input value={startUrl} onChange={(e) => setStartUrl(e.target.value)} disabled={isCrawling} className="h-9 font-mono text-xs" />
@@ -214,7 +146,7 @@ export default function CleanCrawlerPage() {
             {isCrawling ? <Loader2 className="animate-spin w-4 h-4" /> : <Play className="w-4 h-4 mr-1" />} Start
           </Button>
           {isCrawling && (
-            <Button onClick={() => (shouldStop.current = true)} variant="destructive" className="h-9">
+            <Button onClick={cancel} variant="destructive" className="h-9">
               <StopCircle className="w-4 h-4" />
             </Button>
           )}
@@ -252,21 +184,18 @@ export default function CleanCrawlerPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {Array.from(resultsMap.values())
-                  .slice(-50)
-                  .reverse()
-                  .map((row) => (
-                    <TableRow key={row.url} className="h-9 border-b-slate-50">
-                      <TableCell className="py-2 font-mono text-[11px] text-slate-600">
-                        <div className="" title={row.url}>
-                          {row.url}
-                        </div>
-                      </TableCell>
-                      <TableCell className="py-2 text-right">
-                        <StatusBadge status={row.status} />
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                {liveLog.map((row, i) => (
+                  <TableRow key={`${row.url}-${i}`} className="h-9 border-b-slate-50">
+                    <TableCell className="py-2 font-mono text-[11px] text-slate-600">
+                      <div className="" title={row.url}>
+                        {row.url}
+                      </div>
+                    </TableCell>
+                    <TableCell className="py-2 text-right">
+                      <StatusBadge status={row.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
               </TableBody>
             </Table>
           </div>
@@ -288,7 +217,22 @@ export default function CleanCrawlerPage() {
 
             {/* Final Pages Tab */}
             <TabsContent value="final" className="flex-1 flex flex-col overflow-hidden p-0 m-0">
-              <div className="p-2 border-b flex justify-end bg-white">
+              <div className="p-2 border-b flex justify-end items-center gap-2 bg-white">
+                <label className="flex items-center gap-1 text-[11px] text-slate-500" title="Add <lastmod> from Last-Modified headers">
+                  <input type="checkbox" checked={sitemapLastmod} onChange={(e) => setSitemapLastmod(e.target.checked)} /> lastmod
+                </label>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 text-xs text-green-700"
+                  disabled={!job}
+                  onClick={() => downloadExport("sitemap", sitemapLastmod ? { lastmod: "1" } : {})}
+                >
+                  <FileCode size={12} className="mr-1" /> sitemap.xml
+                </Button>
+                <Button size="sm" variant="ghost" className="h-6 text-xs text-green-700" disabled={!job} onClick={() => downloadExport("xlsx")}>
+                  <FileSpreadsheet size={12} className="mr-1" /> Excel
+                </Button>
                 <Button size="sm" variant="ghost" className="h-6 text-xs text-green-700" onClick={() => handleCopy("final")}>
                   <Copy size={12} className="mr-1" /> Copy URLs
                 </Button>
@@ -309,7 +253,10 @@ export default function CleanCrawlerPage() {
 
             {/* Broken Links Tab */}
             <TabsContent value="broken" className="flex-1 flex flex-col overflow-hidden p-0 m-0">
-              <div className="p-2 border-b flex justify-end bg-white">
+              <div className="p-2 border-b flex justify-end gap-2 bg-white">
+                <Button size="sm" variant="ghost" className="h-6 text-xs text-red-700" disabled={!job} onClick={() => downloadExport("csv")}>
+                  <FileSpreadsheet size={12} className="mr-1" /> CSV
+                </Button>
                 <Button size="sm" variant="ghost" className="h-6 text-xs text-red-700" onClick={() => handleCopy("broken")}>
                   <Copy size={12} className="mr-1" /> Copy URLs
                 </Button>
@@ -1,6 +1,10 @@
 "use client";
 
-import axios from "axios";
+import { HostRateBadge } from "@/components/host-rate";
+import { useCrawlJob } from "@/hooks/use-crawl-job";
+import { isBrokenStatus, isCrawlableStatus } from "@/lib/crawler/status";
+import type { CrawlerState, SiteMap } from "@/lib/crawler/types";
+import { canonicalizeUrl, DEFAULT_NORMALIZATION, type NormalizationRules } from "@/lib/crawler/url";
 import {
   Activity,
   Ban,
@@ -10,6 +14,7 @@ import {
   ExternalLink,
   File,
   FileCheck,
+  FileCode,
   FileText,
   FileWarning,
   FolderCheck,
@@ -23,243 +28,38 @@ import {
   Save,
   Upload,
 } from "lucide-react";
-import React, { useCallback, useEffect, useRef, useState } from "react";
-
-// --- DATA TYPES ---
-type LinkStatus = "ok" | "broken" | "soft-404" | "redirect" | "error" | "pending";
-
-interface BrokenReportItem {
-  brokenLink: string;
-  redirectedTo: string | null;
-  foundOnPage: string;
-  status: LinkStatus;
-}
-
-interface PageNode {
-  url: string;
-  status: LinkStatus;
-  children: string[];
-  parent: string | null;
-}
-
-type SiteMap = Record<string, PageNode>;
-
-interface QueueItem {
-  url: string;
-  parent: string | null;
-  depth: number;
-}
-
-interface CrawlerState {
-  queue: QueueItem[];
-  visited: string[];
-  siteMap: SiteMap;
-  brokenLinks: BrokenReportItem[];
-}
-
-interface LiveScanItem {
-  url: string;
-  foundCount: number;
-  status: LinkStatus;
-  depth: number;
-}
+import React, { useState } from "react";
 
 // --- STYLES ---
 const btnSecondary =
   "flex items-center gap-2 px-3 py-2 bg-slate-100 border border-slate-300 rounded-lg hover:bg-slate-50 text-xs font-medium text-slate-700 transition cursor-pointer shadow-sm";
 
-// --- HELPER: STRICT URL NORMALIZATION ---
-const normalizeUrl = (url: string): string => {
-  try {
-    const urlObj = new URL(url);
-    // Force lowercase and remove 'www.'
-    let host = urlObj.hostname.toLowerCase().replace(/^www\./, "");
-    let cleanPath = urlObj.pathname.toLowerCase();
-
-    // Remove trailing slash
-    if (cleanPath.endsWith("/") && cleanPath.length > 1) {
-      cleanPath = cleanPath.slice(0, -1);
-    }
-    return `${urlObj.protocol}//${host}${cleanPath}`;
-  } catch (e) {
-    return url;
-  }
-};
+// --- CONFIGURATION ---
+const START_URL = "https://coloringonly.com";
+const MAX_CONCURRENCY = 20; // Increased for speed
+const MAX_DEPTH = 6;
 
 export default function Crawler() {
-  const [isRunning, setIsRunning] = useState(false);
-  const [activeWorkers, setActiveWorkers] = useState(0);
-  const [liveFeed, setLiveFeed] = useState<LiveScanItem[]>([]);
-  const [tick, setTick] = useState(0);
-
-  // --- CONFIGURATION ---
-  const MAX_CONCURRENCY = 20; // Increased for speed
-  const MAX_DEPTH = 6;
-
-  // --- REFS ---
-  const queue = useRef<QueueItem[]>([{ url: "https://coloringonly.com", parent: null, depth: 0 }]);
-  const visited = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-
-  // FIX 1: GLOBAL REGISTRY (The Shield)
-  // This tracks URLs that are EITHER visited OR currently sitting in the queue.
-  // It prevents 15 workers from adding the same "Category" link 15 times simultaneously.
-  const globalRegistry = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-
-  const siteMap = useRef<SiteMap>({
-    "https://coloringonly.com": {
-      url: "https://coloringonly.com",
-      status: "pending",
-      children: [],
-      parent: null,
-    },
+  // The crawl itself runs server-side; this page only views the job
+  const { job, isRunning, canResume, start, pause, resume, exportState, downloadExport } = useCrawlJob({
+    storageKey: "crawler-job:deep-scan",
+    include: ["siteMap"],
   });
 
-  const brokenLinks = useRef<BrokenReportItem[]>([]);
-
-  const [stats, setStats] = useState({
-    queued: 1,
-    mapped: 0,
-    broken: 0,
-    soft404: 0,
-    ok: 0,
-  });
-
-  // --- CRAWL ENGINE ---
-  const crawlStep = useCallback(async () => {
-    if (queue.current.length === 0) {
-      if (activeWorkers === 0) setIsRunning(false);
-      return;
-    }
-
-    // FIX 2: LAZY CLEANUP ON POP
-    // If the queue contains a duplicate that slipped in before (or from a bad file), skip it.
-    let currentItem = queue.current.shift();
-    while (currentItem && visited.current.has(normalizeUrl(currentItem.url))) {
-      currentItem = queue.current.shift();
-    }
-
-    if (!currentItem) return;
-
-    const currentKey = normalizeUrl(currentItem.url);
-
-    try {
-      setActiveWorkers((prev) => prev + 1);
+  const stats = job?.stats ?? { queued: 1, mapped: 0, broken: 0, soft404: 0, ok: 0 };
+  const activeWorkers = job?.activeWorkers ?? 0;
+  const liveFeed = (job?.feed ?? []).slice(0, 8);
+  const siteMap: SiteMap = job?.siteMap ?? {};
 
-      const { data } = await axios.post("/api/crawl", { url: currentItem.url });
-
-      setLiveFeed((prev) =>
-        [
-          {
-            url: currentItem.url,
-            foundCount: data.links?.length || 0,
-            status: data.status,
-            depth: currentItem.depth,
-          },
-          ...prev,
-        ].slice(0, 8)
-      );
-
-      // 1. REPORT ISSUES
-      if (data.status === "broken" || data.status === "soft-404" || data.status === "error") {
-        brokenLinks.current.push({
-          brokenLink: currentItem.url,
-          redirectedTo: data.redirectLocation || null,
-          foundOnPage: currentItem.parent || "ROOT",
-          status: data.status,
-        });
-      }
-
-      const foundLinks = data.links || [];
-      const cleanChildren: string[] = [];
-      const newItemsToQueue: QueueItem[] = [];
-
-      // 2. DISCOVERY LOGIC
-      if ((data.status === "ok" || data.status === "redirect") && !data.isLeaf) {
-        if (currentItem.depth < MAX_DEPTH) {
-          foundLinks.forEach((rawLink: string) => {
-            const cleanLink = normalizeUrl(rawLink);
-
-            // Always add to visual children list
-            cleanChildren.push(rawLink);
-
-            // FIX 3: STRICT CHECK AGAINST REGISTRY
-            // We only queue if we have NEVER seen this link (visited OR queued)
-            if (!globalRegistry.current.has(cleanLink)) {
-              globalRegistry.current.add(cleanLink); // Mark as claimed immediately
-
-              // Add to Sitemap (Visuals)
-              if (!siteMap.current[cleanLink]) {
-                siteMap.current[cleanLink] = {
-                  url: rawLink,
-                  status: "pending",
-                  children: [],
-                  parent: currentItem.url,
-                };
-              }
-
-              // Add to Queue
-              newItemsToQueue.push({
-                url: rawLink,
-                parent: currentItem.url,
-                depth: currentItem.depth + 1,
-              });
-            }
-          });
-
-          // DFS: Add new items to the FRONT of the queue
-          if (newItemsToQueue.length > 0) {
-            queue.current.unshift(...newItemsToQueue);
-          }
-        }
-      }
-
-      // 3. UPDATE SITEMAP NODE
-      siteMap.current[currentKey] = {
-        url: currentItem.url,
-        status: data.status,
-        children: cleanChildren,
-        parent: currentItem.parent,
-      };
-
-      visited.current.add(currentKey);
-
-      // 4. Update Stats
-      setStats((prev) => ({
-        queued: queue.current.length,
-        mapped: Object.keys(siteMap.current).length,
-        ok: prev.ok + (data.status === "ok" ? 1 : 0),
-        broken: brokenLinks.current.filter((i) => i.status !== "soft-404").length,
-        soft404: brokenLinks.current.filter((i) => i.status === "soft-404").length,
-      }));
-    } catch (err) {
-      siteMap.current[currentKey] = { url: currentItem.url, status: "error", children: [], parent: currentItem.parent };
-    } finally {
-      setActiveWorkers((prev) => prev - 1);
-    }
-  }, [activeWorkers]);
-
-  // --- LOOP ---
-  useEffect(() => {
-    if (!isRunning) return;
-    const timer = setInterval(() => {
-      // Only spawn if we have capacity and items in queue
-      if (activeWorkers < MAX_CONCURRENCY && queue.current.length > 0) {
-        crawlStep();
-      }
-    }, 20);
-
-    // UI Update Loop
-    const uiTimer = setInterval(() => setTick((t) => t + 1), 1000);
-
-    return () => {
-      clearInterval(timer);
-      clearInterval(uiTimer);
-    };
-  }, [isRunning, activeWorkers, crawlStep]);
+  const toggleRunning = () => {
+    if (isRunning) pause();
+    else if (canResume) resume();
+    else start({ url: START_URL, concurrency: MAX_CONCURRENCY, maxDepth: MAX_DEPTH, strategy: "dfs" });
+  };
 
   // --- EXPORT / SAVE / LOAD ---
   const downloadReport = () => {
-    const blob = new Blob([JSON.stringify(brokenLinks.current, null, 2)], { type: "application/json" });
+    const blob = new Blob([JSON.stringify(job?.brokenLinks ?? [], null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
@@ -270,13 +70,10 @@ export default function Crawler() {
     URL.revokeObjectURL(url);
   };
 
-  const saveProgress = () => {
-    const state: CrawlerState = {
-      queue: queue.current,
-      visited: Array.from(visited.current),
-      siteMap: siteMap.current,
-      brokenLinks: brokenLinks.current,
-    };
+  const saveProgress = async () => {
+    await pause();
+    const state = await exportState();
+    if (!state) return;
     const blob = new Blob([JSON.stringify(state)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -286,55 +83,20 @@ export default function Crawler() {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-    setIsRunning(false);
   };
 
-  // FIX 4: SMART LOAD (The Cleaner)
+  // SMART LOAD: the server drops queue duplicates and resumes from the saved state
   const loadProgress = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (ev) => {
+    reader.onload = async (ev) => {
       try {
         const state = JSON.parse(ev.target?.result as string) as CrawlerState;
-
-        // --- DEDUPLICATION LOGIC ---
-        const uniqueRegistry = new Set<string>();
-        const uniqueQueue: QueueItem[] = [];
-
-        // 1. Add all previously visited pages to registry
-        state.visited.forEach((url) => uniqueRegistry.add(normalizeUrl(url)));
-
-        // 2. Filter Queue: Only add if NOT in registry
-        let duplicateCount = 0;
-        state.queue.forEach((item) => {
-          const norm = normalizeUrl(item.url);
-          // Only if it's NOT visited and NOT already queued
-          if (!uniqueRegistry.has(norm)) {
-            uniqueRegistry.add(norm);
-            uniqueQueue.push(item);
-          } else {
-            duplicateCount++;
-          }
-        });
-
-        // 3. Commit State
-        queue.current = uniqueQueue;
-        visited.current = new Set(state.visited);
-        globalRegistry.current = uniqueRegistry; // Set the shield
-        siteMap.current = state.siteMap || {};
-        brokenLinks.current = state.brokenLinks || [];
-
-        setStats({
-          queued: uniqueQueue.length,
-          mapped: Object.keys(state.siteMap).length,
-          ok: 0,
-          broken: state.brokenLinks.length,
-          soft404: 0,
-        });
-
+        const loaded = await start({ url: START_URL, concurrency: MAX_CONCURRENCY, maxDepth: MAX_DEPTH, strategy: "dfs", state });
+        const duplicateCount = state.queue.length - loaded.stats.queued;
         alert(`Loaded! Removed ${duplicateCount} duplicates from queue. Ready to resume.`);
-      } catch (err) {
+      } catch {
         alert("Invalid JSON File");
       }
     };
@@ -362,6 +124,7 @@ export default function Crawler() {
                   <span className="text-red-600 font-bold">{stats.broken} Broken</span>
                   <span className="text-orange-500 font-bold">{stats.soft404} Soft 404</span>
                   <span className="text-slate-400">Queue: {stats.queued}</span>
+                  <HostRateBadge rates={job?.hostRates ?? []} />
                 </div>
               </div>
             </div>
@@ -378,9 +141,25 @@ export default function Crawler() {
             <button onClick={downloadReport} className={`${btnSecondary} text-red-600 bg-red-50 border-red-200`}>
               <FileWarning size={14} /> Report
             </button>
+            <button
+              onClick={() => downloadExport("sitemap", { lastmod: "1" })}
+              disabled={!job}
+              className={`${btnSecondary} text-emerald-700 bg-emerald-50 border-emerald-200`}
+              title="sitemap.xml of OK, non-redirecting pages"
+            >
+              <FileCode size={14} /> sitemap.xml
+            </button>
+            <button
+              onClick={() => downloadExport("html")}
+              disabled={!job}
+              className={btnSecondary}
+              title="Single-file report to send to clients: health, broken links by page, redirects and the site tree"
+            >
+              <FileText size={14} /> HTML Report
+            </button>
             <div className="w-px h-8 bg-slate-200 mx-1"></div>
             <button
-              onClick={() => setIsRunning(!isRunning)}
+              onClick={toggleRunning}
               className={`px-5 py-2 rounded-lg font-bold text-white flex items-center gap-2 transition ${
                 isRunning ? "bg-amber-500" : "bg-emerald-600"
               }`}
@@ -442,10 +221,11 @@ export default function Crawler() {
 
             <div className="flex-1 overflow-y-auto p-6 bg-white font-sans text-sm">
               <TreeNode
-                url="https://coloringonly.com"
-                dataMap={siteMap.current}
+                url={START_URL}
+                dataMap={siteMap}
                 depth={0}
-                forceUpdate={tick}
+                forceUpdate={job?.updatedAt ?? 0}
+                normalization={job?.normalization ?? DEFAULT_NORMALIZATION}
                 ancestors={[]}
                 parentUrl={null} // Root has no parent
               />
@@ -463,6 +243,7 @@ const TreeNode = ({
   dataMap,
   depth,
   forceUpdate,
+  normalization,
   ancestors,
   parentUrl,
 }: {
@@ -470,10 +251,11 @@ const TreeNode = ({
   dataMap: SiteMap;
   depth: number;
   forceUpdate: number;
+  normalization: NormalizationRules;
   ancestors: string[];
   parentUrl: string | null;
 }) => {
-  const nodeKey = normalizeUrl(url);
+  const nodeKey = canonicalizeUrl(url, normalization);
   const node = dataMap[nodeKey];
 
   const [isOpen, setIsOpen] = useState(depth < 1);
@@ -482,7 +264,7 @@ const TreeNode = ({
 
   // CANONICAL CHECK: Only show children if THIS parent was the one who found it
   // This collapses the visual tree so you don't see duplicates
-  const isCanonical = !parentUrl || normalizeUrl(node.parent || "") === normalizeUrl(parentUrl);
+  const isCanonical = !parentUrl || canonicalizeUrl(node.parent || "", normalization) === canonicalizeUrl(parentUrl, normalization);
 
   const isLoop = ancestors.includes(nodeKey);
   const hasChildren = node.children && node.children.length > 0;
@@ -492,8 +274,8 @@ const TreeNode = ({
   let iconColor = "text-slate-300";
   const lowerUrl = url.toLowerCase();
 
-  const isBroken = node.status === "broken" || node.status === "soft-404" || node.status === "error";
-  const isDone = node.status === "ok" || node.status === "redirect";
+  const isBroken = isBrokenStatus(node.status);
+  const isDone = isCrawlableStatus(node.status);
 
   if (isBroken) {
     IconComponent = Ban;
@@ -558,6 +340,7 @@ const TreeNode = ({
               dataMap={dataMap}
               depth={depth + 1}
               forceUpdate={forceUpdate}
+              normalization={normalization}
               ancestors={[...ancestors, nodeKey]}
               parentUrl={url}
             />
@@ -1,176 +1,101 @@
 "use client";
 
-import axios from "axios";
-import { Activity, AlertTriangle, Download, Pause, Play, Save, Trash2, Upload } from "lucide-react";
-import React, { useCallback, useEffect, useRef, useState } from "react";
-
-// --- Types ---
-type LinkStatus = "ok" | "broken" | "soft-404" | "redirect" | "error";
-
-interface BrokenReportItem {
-  brokenLink: string;
-  redirectedTo: string | null;
-  foundOnPage: string;
-  status: LinkStatus;
-}
-
-interface QueueItem {
-  url: string;
-  parent: string;
-}
-
-interface CrawlerState {
-  queue: QueueItem[];
-  visited: string[];
-  brokenLinks: BrokenReportItem[];
-}
-
-interface LiveScanItem {
-  url: string;
-  foundCount: number;
-  status: LinkStatus;
-}
-
-// --- HELPER: STRICT NORMALIZATION ---
-// This prevents 'page/' and 'page' from being seen as two different links
-const normalizeUrl = (url: string): string => {
-  try {
-    const urlObj = new URL(url);
-    // 1. Force Lowercase (WordPress is usually case-insensitive)
-    // 2. Remove Trailing Slash
-    let cleanPath = urlObj.pathname.toLowerCase();
-    if (cleanPath.endsWith("/") && cleanPath.length > 1) {
-      cleanPath = cleanPath.slice(0, -1);
-    }
-    // 3. Rebuild without Query Params (unless strictly needed)
-    // This kills ?orderby=, ?source=, etc.
-    return `${urlObj.origin}${cleanPath}`;
-  } catch (e) {
-    return url;
-  }
-};
+import { FetchErrorBadge } from "@/components/fetch-error";
+import { HostRateBadge } from "@/components/host-rate";
+import { LinkSourcesView } from "@/components/link-context";
+import { RedirectChainView } from "@/components/redirect-chain";
+import { AssetsPanel } from "@/components/report-panels/assets-panel";
+import { ChangesPanel } from "@/components/report-panels/changes-panel";
+import { ExternalLinksPanel } from "@/components/report-panels/external-links-panel";
+import { HreflangPanel } from "@/components/report-panels/hreflang-panel";
+import { IndexingPanel } from "@/components/report-panels/indexing-panel";
+import { RedirectsPanel } from "@/components/report-panels/redirects-panel";
+import { SitemapCoveragePanel } from "@/components/report-panels/sitemap-coverage-panel";
+import { UrlRulesPanel } from "@/components/report-panels/url-rules-panel";
+import { Soft404Confidence } from "@/components/soft404-confidence";
+import { StatusBadge } from "@/components/status-badge";
+import { useCrawlJob } from "@/hooks/use-crawl-job";
+import type { BrokenReportItem, CrawlerState } from "@/lib/crawler/types";
+import {
+  Activity,
+  AlertTriangle,
+  CornerDownRight,
+  Download,
+  ExternalLink,
+  FileSpreadsheet,
+  FileText,
+  Filter,
+  GitCompare,
+  Globe,
+  Image as ImageIcon,
+  Map as MapIcon,
+  Pause,
+  Play,
+  Save,
+  ScanSearch,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import React, { useState } from "react";
+
+// --- CONFIGURATION ---
+const START_URL = "https://coloringonly.com";
+const MAX_CONCURRENCY = 15; // Increased for speed
 
 export default function Crawler() {
-  const [isRunning, setIsRunning] = useState(false);
-  const [activeWorkers, setActiveWorkers] = useState(0);
-  const [liveFeed, setLiveFeed] = useState<LiveScanItem[]>([]);
-
-  const [stats, setStats] = useState({
+  // The crawl itself runs server-side; this page only views the job
+  const { job, isRunning, canResume, start, pause, resume, exportState, downloadExport } = useCrawlJob({ storageKey: "crawler-job:integrity" });
+  // Cleared by URL: the report is re-sorted as more source pages are found
+  const [clearedLinks, setClearedLinks] = useState<Set<string>>(new Set());
+  const [seedFromSitemap, setSeedFromSitemap] = useState(false);
+  const [checkExternal, setCheckExternal] = useState(false);
+  const [checkAssets, setCheckAssets] = useState(false);
+  const [incremental, setIncremental] = useState(false);
+  // Comma-separated language folders to crawl too, e.g. "fr,de"
+  const [languages, setLanguages] = useState("");
+  const [activeTab, setActiveTab] = useState<
+    "issues" | "redirects" | "external" | "assets" | "sitemap" | "changes" | "rules" | "hreflang" | "indexing"
+  >("issues");
+
+  const stats = job?.stats ?? {
     queued: 1,
     visited: 0,
     broken: 0,
     soft404: 0,
-  });
-
-  // --- REFS ---
-  const queue = useRef<QueueItem[]>([{ url: "https://coloringonly.com", parent: "ROOT" }]);
-  // Track what we have finished scanning
-  const visited = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-  // Track what is currently waiting in line (PREVENTS DUPLICATES IN QUEUE)
-  const queuedRegistry = useRef<Set<string>>(new Set(["https://coloringonly.com"]));
-
-  const brokenLinks = useRef<BrokenReportItem[]>([]);
-
-  const MAX_CONCURRENCY = 15; // Increased for speed
-
-  // --- CORE CRAWL LOGIC ---
-  const crawlStep = useCallback(async () => {
-    if (queue.current.length === 0) {
-      setIsRunning(false);
-      return;
-    }
-
-    const currentItem = queue.current.shift();
-    if (!currentItem) return;
-
-    // Remove from registry so we can technically re-queue if needed (though usually we won't)
-    // But mostly we keep it in 'visited' once done.
-
-    try {
-      setActiveWorkers((prev) => prev + 1);
-
-      const { data } = await axios.post("/api/crawl", { url: currentItem.url });
-
-      // Update Live Feed
-      setLiveFeed((prev) =>
-        [
-          {
-            url: currentItem.url,
-            foundCount: data.links?.length || 0,
-            status: data.status,
-          },
-          ...prev,
-        ].slice(0, 8)
-      );
-
-      // 1. Handle Errors
-      if (data.status === "broken" || data.status === "soft-404" || data.status === "error") {
-        brokenLinks.current.push({
-          brokenLink: currentItem.url,
-          redirectedTo: data.redirectLocation || null,
-          foundOnPage: currentItem.parent,
-          status: data.status,
-        });
-      }
-
-      // 2. Handle Discovery (The Deduplication Logic)
-      if ((data.status === "ok" || data.status === "redirect") && !data.isLeaf) {
-        if (data.links && data.links.length > 0) {
-          data.links.forEach((rawLink: string) => {
-            const cleanLink = normalizeUrl(rawLink);
-
-            // CHECK 1: Have we visited this already?
-            if (visited.current.has(cleanLink)) return;
-
-            // CHECK 2: Is it already waiting in the queue?
-            if (queuedRegistry.current.has(cleanLink)) return;
-
-            // If new, add to Queue AND Registry
-            queuedRegistry.current.add(cleanLink);
-            queue.current.push({
-              url: rawLink, // Keep original casing for fetch, but logic uses clean
-              parent: currentItem.url,
-            });
-          });
-        }
-      }
-
-      // Mark as fully visited
-      visited.current.add(normalizeUrl(currentItem.url));
+    notModified: 0,
+    external: 0,
+    externalBroken: 0,
+    assets: 0,
+    assetsBroken: 0,
+  };
+  const activeWorkers = job?.activeWorkers ?? 0;
+  const liveFeed = (job?.feed ?? []).slice(0, 8);
+  const brokenLinks: BrokenReportItem[] = (job?.brokenLinks ?? []).filter((item) => !clearedLinks.has(item.brokenLink));
 
-      // UI Updates
-      setStats((prev) => ({
-        queued: queue.current.length,
-        visited: visited.current.size,
-        broken: brokenLinks.current.filter((l) => l.status === "broken" || l.status === "error").length,
-        soft404: brokenLinks.current.filter((l) => l.status === "soft-404").length,
-      }));
-    } catch (err) {
-      brokenLinks.current.push({
-        brokenLink: currentItem.url,
-        redirectedTo: null,
-        foundOnPage: currentItem.parent,
-        status: "error",
-      });
-    } finally {
-      setActiveWorkers((prev) => prev - 1);
+  // --- ACTIONS ---
+  const toggleRunning = () => {
+    if (isRunning) pause();
+    else if (canResume) resume();
+    else {
+      setClearedLinks(new Set());
+      start({
+        url: START_URL,
+        concurrency: MAX_CONCURRENCY,
+        strategy: "bfs",
+        seedFromSitemap,
+        checkExternal,
+        checkAssets,
+        incremental,
+        languages: languages
+          .split(",")
+          .map((language) => language.trim())
+          .filter(Boolean),
+      }).catch((error) => alert(error.response?.data?.error ?? error.message));
     }
-  }, []);
-
-  // --- LOOP ---
-  useEffect(() => {
-    if (!isRunning) return;
-    const timer = setInterval(() => {
-      if (activeWorkers < MAX_CONCURRENCY && queue.current.length > 0) {
-        crawlStep();
-      }
-    }, 20); // Very fast check cycle
-    return () => clearInterval(timer);
-  }, [isRunning, activeWorkers, crawlStep]);
+  };
 
-  // --- ACTIONS ---
   const downloadReport = () => {
-    const content = JSON.stringify(brokenLinks.current, null, 2);
+    const content = JSON.stringify(job?.brokenLinks ?? [], null, 2);
     const blob = new Blob([content], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -180,57 +105,35 @@ export default function Crawler() {
     link.click();
   };
 
-  const saveProgress = () => {
-    const state: CrawlerState = {
-      queue: queue.current,
-      visited: Array.from(visited.current),
-      brokenLinks: brokenLinks.current,
-    };
+  const saveProgress = async () => {
+    await pause();
+    const state = await exportState();
+    if (!state) return;
     const blob = new Blob([JSON.stringify(state)], { type: "application/json" });
-
-    // --- FIX START ---
-    const url = URL.createObjectURL(blob); // Create the URL from the blob here
+    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
-    link.href = url; // Now 'url' is defined
-    // --- FIX END ---
-
-    link.download = `crawler-state-${visited.current.size}.json`;
+    link.href = url;
+    link.download = `crawler-state-${state.visited.length}.json`;
     document.body.appendChild(link);
     link.click();
 
     // Cleanup
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-
-    setIsRunning(false);
   };
+
   const loadProgress = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (ev) => {
+    reader.onload = async (ev) => {
       try {
         const state = JSON.parse(ev.target?.result as string) as CrawlerState;
-
-        // Restore Queue
-        queue.current = state.queue;
-
-        // Restore Visited Set
-        visited.current = new Set(state.visited);
-
-        // Rebuild Registry from Queue (Critical step)
-        queuedRegistry.current = new Set(state.queue.map((i) => normalizeUrl(i.url)));
-
-        brokenLinks.current = state.brokenLinks;
-
-        setStats({
-          queued: state.queue.length,
-          visited: state.visited.length,
-          broken: state.brokenLinks.length,
-          soft404: 0,
-        });
+        setClearedLinks(new Set());
+        // The server rebuilds the registry from the queue and resumes the crawl
+        await start({ url: START_URL, concurrency: MAX_CONCURRENCY, strategy: "bfs", state });
         alert(`Loaded! Resume from ${state.visited.length} scanned pages.`);
-      } catch (err) {
+      } catch {
         alert("Invalid File");
       }
     };
@@ -259,11 +162,74 @@ export default function Crawler() {
                 <span className="text-red-600">
                   Broken: <b>{stats.broken}</b>
                 </span>
+                {job?.options.incremental && (
+                  <span className="text-slate-500" title="Answered 304 Not Modified; links reused from the previous crawl">
+                    Unchanged: <b>{stats.notModified.toLocaleString()}</b>
+                  </span>
+                )}
+                {job?.options.checkExternal && (
+                  <span className="text-slate-500">
+                    External: <b className="text-red-600">{stats.externalBroken}</b> / {stats.external.toLocaleString()}
+                  </span>
+                )}
+                {job?.options.checkAssets && (
+                  <span className="text-slate-500">
+                    Assets: <b className="text-red-600">{stats.assetsBroken}</b> / {stats.assets.toLocaleString()}
+                  </span>
+                )}
+                <HostRateBadge rates={job?.hostRates ?? []} />
               </div>
             </div>
           </div>
 
-          <div className="flex gap-2">
+          <div className="flex gap-2 items-center">
+            <label
+              className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none"
+              title="Queue every URL from sitemap.xml too"
+            >
+              <input
+                type="checkbox"
+                checked={seedFromSitemap}
+                onChange={(e) => setSeedFromSitemap(e.target.checked)}
+                disabled={isRunning || canResume}
+              />
+              Seed from sitemap.xml
+            </label>
+            <label
+              className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none"
+              title="Check links to other sites once each (never crawled)"
+            >
+              <input type="checkbox" checked={checkExternal} onChange={(e) => setCheckExternal(e.target.checked)} disabled={isRunning || canResume} />
+              Check external links
+            </label>
+            <label
+              className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none"
+              title="Check every image, download, script and stylesheet the pages use"
+            >
+              <input type="checkbox" checked={checkAssets} onChange={(e) => setCheckAssets(e.target.checked)} disabled={isRunning || canResume} />
+              Audit assets
+            </label>
+            <label
+              className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer select-none"
+              title="Revalidate pages against the previous crawl (ETag / Last-Modified) and only re-parse the ones that changed"
+            >
+              <input type="checkbox" checked={incremental} onChange={(e) => setIncremental(e.target.checked)} disabled={isRunning || canResume} />
+              Incremental
+            </label>
+            <label
+              className="flex items-center gap-1.5 text-xs text-slate-500 select-none"
+              title="Language folders to crawl too (skipped by the profile otherwise), comma-separated"
+            >
+              Languages
+              <input
+                type="text"
+                value={languages}
+                onChange={(e) => setLanguages(e.target.value)}
+                disabled={isRunning || canResume}
+                placeholder="fr,de"
+                className="w-20 px-1.5 py-0.5 border border-slate-200 rounded font-mono"
+              />
+            </label>
             <label className="btn-secondary">
               <Upload size={14} /> Load
               <input type="file" onChange={loadProgress} className="hidden" accept=".json" />
@@ -274,9 +240,29 @@ export default function Crawler() {
             <button onClick={downloadReport} className="btn-secondary text-blue-600 bg-blue-50 border-blue-200">
               <Download size={14} /> JSON
             </button>
+            <button onClick={() => downloadExport("csv")} disabled={!job} className="btn-secondary" title="Broken links, one row per source page">
+              <FileSpreadsheet size={14} /> CSV
+            </button>
+            <button
+              onClick={() => downloadExport("xlsx")}
+              disabled={!job}
+              className="btn-secondary"
+              title="Broken links and the full page inventory, with a sheet per status"
+            >
+              <FileSpreadsheet size={14} /> Excel
+            </button>
+            <button onClick={() => downloadExport("html")} disabled={!job} className="btn-secondary" title="Single-file report to send to clients">
+              <FileText size={14} /> HTML
+            </button>
+            <button onClick={() => downloadExport("junit")} disabled={!job} className="btn-secondary" title="JUnit XML for CI test reporters">
+              <FileText size={14} /> JUnit
+            </button>
+            <button onClick={() => downloadExport("sarif")} disabled={!job} className="btn-secondary" title="SARIF for code scanning dashboards">
+              <FileText size={14} /> SARIF
+            </button>
             <div className="w-px h-8 bg-slate-200 mx-1"></div>
             <button
-              onClick={() => setIsRunning(!isRunning)}
+              onClick={toggleRunning}
               className={`px-5 py-2 rounded-lg font-bold text-white flex items-center gap-2 transition shadow-sm ${
                 isRunning ? "bg-amber-500 hover:bg-amber-600" : "bg-emerald-600 hover:bg-emerald-700"
               }`}
@@ -322,67 +308,137 @@ export default function Crawler() {
           {/* Report Table */}
           <div className="lg:col-span-3 bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col max-h-[500ppx] overflow-y-auto">
             <div className="p-3 bg-slate-50 border-b border-slate-200 flex justify-between items-center rounded-t-xl">
-              <h3 className="font-bold text-slate-700 text-sm flex items-center gap-2">
-                <AlertTriangle size={16} className="text-red-500" /> Detected Issues
-              </h3>
+              <div className="flex gap-4">
+                <button
+                  onClick={() => setActiveTab("issues")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "issues" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <AlertTriangle size={16} className="text-red-500" /> Detected Issues
+                </button>
+                <button
+                  onClick={() => setActiveTab("redirects")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "redirects" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <CornerDownRight size={16} className="text-blue-500" /> Redirect Chains
+                </button>
+                <button
+                  onClick={() => setActiveTab("external")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "external" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <ExternalLink size={16} className="text-orange-500" /> External
+                </button>
+                <button
+                  onClick={() => setActiveTab("assets")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "assets" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <ImageIcon size={16} className="text-pink-500" /> Assets
+                </button>
+                <button
+                  onClick={() => setActiveTab("sitemap")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "sitemap" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <MapIcon size={16} className="text-indigo-500" /> Sitemap Coverage
+                </button>
+                <button
+                  onClick={() => setActiveTab("changes")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "changes" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <GitCompare size={16} className="text-emerald-500" /> Changes
+                </button>
+                <button
+                  onClick={() => setActiveTab("rules")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "rules" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <Filter size={16} className="text-slate-500" /> URL Rules
+                </button>
+                <button
+                  onClick={() => setActiveTab("hreflang")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "hreflang" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <Globe size={16} className="text-cyan-500" /> Hreflang
+                </button>
+                <button
+                  onClick={() => setActiveTab("indexing")}
+                  className={`font-bold text-sm flex items-center gap-2 ${activeTab === "indexing" ? "text-slate-700" : "text-slate-400"}`}
+                >
+                  <ScanSearch size={16} className="text-violet-500" /> Indexing
+                </button>
+              </div>
               <button
-                onClick={() => {
-                  brokenLinks.current = [];
-                  setStats((s) => ({ ...s, broken: 0, soft404: 0 }));
-                }}
+                onClick={() => setClearedLinks(new Set((job?.brokenLinks ?? []).map((item) => item.brokenLink)))}
                 className="text-xs text-red-500 flex items-center gap-1 hover:bg-red-50 px-2 py-1 rounded border border-transparent hover:border-red-100 transition"
               >
                 <Trash2 size={12} /> Clear
               </button>
             </div>
 
-            <div className="flex-1 overflow-y-auto p-0 scrollbar-thin scrollbar-thumb-slate-200">
-              <table className="w-full text-left border-collapse">
-                <thead className="bg-slate-100 text-slate-500 text-[11px] uppercase font-bold sticky top-0 z-10 shadow-sm tracking-wide">
-                  <tr>
-                    <th className="p-3 w-20">Status</th>
-                    <th className="p-3 w-1/3">Broken Link</th>
-                    <th className="p-3 w-1/4">Redirected To</th>
-                    <th className="p-3">Found On Page</th>
-                  </tr>
-                </thead>
-                <tbody className="text-xs divide-y divide-slate-100 font-mono text-slate-600">
-                  {brokenLinks.current.map((item, i) => (
-                    <tr key={i} className="hover:bg-slate-50 group transition-colors">
-                      <td className="p-3">
-                        <StatusBadge status={item.status} />
-                      </td>
-                      <td className="p-3 text-red-600 font-medium break-all pr-4 relative">
-                        <a href={item.brokenLink} target="_blank" className="hover:underline flex gap-1 items-start">
-                          {item.brokenLink}
-                        </a>
-                      </td>
-                      <td className="p-3 text-slate-400 break-all pr-4">
-                        {item.redirectedTo ? (
-                          <a href={item.redirectedTo} target="_blank" className="text-blue-500 hover:underline">
-                            {item.redirectedTo}
-                          </a>
-                        ) : (
-                          <span className="opacity-20">-</span>
-                        )}
-                      </td>
-                      <td className="p-3 break-all">
-                        <a href={item.foundOnPage} target="_blank" className="text-slate-500 hover:text-indigo-600 hover:underline">
-                          {item.foundOnPage}
-                        </a>
-                      </td>
-                    </tr>
-                  ))}
-                  {brokenLinks.current.length === 0 && (
+            {activeTab === "sitemap" ? (
+              <SitemapCoveragePanel jobId={job?.id ?? null} />
+            ) : activeTab === "rules" ? (
+              <UrlRulesPanel jobId={job?.id ?? null} />
+            ) : activeTab === "hreflang" ? (
+              <HreflangPanel jobId={job?.id ?? null} />
+            ) : activeTab === "indexing" ? (
+              <IndexingPanel jobId={job?.id ?? null} />
+            ) : activeTab === "changes" ? (
+              <ChangesPanel jobId={job?.id ?? null} startUrl={job?.options.startUrl ?? null} />
+            ) : activeTab === "redirects" ? (
+              <RedirectsPanel jobId={job?.id ?? null} />
+            ) : activeTab === "external" ? (
+              <ExternalLinksPanel jobId={job?.id ?? null} />
+            ) : activeTab === "assets" ? (
+              <AssetsPanel jobId={job?.id ?? null} />
+            ) : (
+              <div className="flex-1 overflow-y-auto p-0 scrollbar-thin scrollbar-thumb-slate-200">
+                <table className="w-full text-left border-collapse">
+                  <thead className="bg-slate-100 text-slate-500 text-[11px] uppercase font-bold sticky top-0 z-10 shadow-sm tracking-wide">
                     <tr>
-                      <td colSpan={4} className="p-20 text-center text-slate-300 italic text-sm">
-                        No issues found yet. <br /> Starting crawling to detect broken links...
-                      </td>
+                      <th className="p-3 w-20">Status</th>
+                      <th className="p-3 w-1/3">Broken Link</th>
+                      <th className="p-3 w-1/4">Redirected To</th>
+                      <th className="p-3">Found On Pages</th>
                     </tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody className="text-xs divide-y divide-slate-100 font-mono text-slate-600">
+                    {brokenLinks.map((item, i) => (
+                      <tr key={i} className="hover:bg-slate-50 group transition-colors">
+                        <td className="p-3">
+                          <StatusBadge status={item.status} />
+                          {item.soft404 && <Soft404Confidence verdict={item.soft404} />}
+                          {item.error && <FetchErrorBadge error={item.error} />}
+                        </td>
+                        <td className="p-3 text-red-600 font-medium break-all pr-4 relative">
+                          <a href={item.brokenLink} target="_blank" className="hover:underline flex gap-1 items-start">
+                            {item.brokenLink}
+                          </a>
+                        </td>
+                        <td className="p-3 text-slate-400 break-all pr-4">
+                          {item.redirectChain ? (
+                            <RedirectChainView chain={item.redirectChain} />
+                          ) : item.redirectedTo ? (
+                            <a href={item.redirectedTo} target="_blank" className="text-blue-500 hover:underline">
+                              {item.redirectedTo}
+                            </a>
+                          ) : (
+                            <span className="opacity-20">-</span>
+                          )}
+                        </td>
+                        <td className="p-3 break-all">
+                          <LinkSourcesView sources={item.sources} fallback={item.foundOnPage} />
+                        </td>
+                      </tr>
+                    ))}
+                    {brokenLinks.length === 0 && (
+                      <tr>
+                        <td colSpan={4} className="p-20 text-center text-slate-300 italic text-sm">
+                          No issues found yet. <br /> Starting crawling to detect broken links...
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -390,17 +446,5 @@ export default function Crawler() {
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  if (status === "ok") return <span className="text-emerald-500 font-bold text-[10px]">OK</span>;
-  if (status === "redirect") return <span className="text-blue-500 font-bold text-[10px]">REDIRECT</span>;
-  if (status === "soft-404")
-    return (
-      <span className="bg-orange-100 text-orange-700 px-2 py-0.5 rounded text-[10px] font-bold border border-orange-200 block text-center">
-        SOFT 404
-      </span>
-    );
-  return <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded text-[10px] font-bold border border-red-200 block text-center">BROKEN</span>;
-}
-
 const btnSecondary =
   "flex items-center gap-2 px-3 py-2 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 text-xs font-medium text-slate-700 transition cursor-pointer shadow-sm";
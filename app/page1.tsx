@@ -1,5 +1,7 @@
 "use client";
 
+import { RedirectChainView } from "@/components/redirect-chain";
+import { Soft404Confidence } from "@/components/soft404-confidence";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import type { RedirectChain, RedirectIssue, Soft404Verdict } from "@/lib/crawler/types";
 import { ArrowRight, CheckCircle2, Copy, Loader2, Play, Search, StopCircle, Trash2, XCircle } from "lucide-react";
 import { useRef, useState } from "react";
 
@@ -18,6 +21,9 @@ type LinkRow = {
   statusCode?: string | number;
   reason?: string;
   isBroken?: boolean;
+  chain?: RedirectChain;
+  issues?: RedirectIssue[];
+  soft404?: Soft404Verdict;
 };
 
 export default function LinkAuditor() {
@@ -100,6 +106,9 @@ export default function LinkAuditor() {
                   statusCode: result.status,
                   reason: result.reason,
                   isBroken: result.isBroken,
+                  chain: result.chain,
+                  issues: result.issues,
+                  soft404: result.soft404,
                 }
               : r
           )
@@ -261,11 +270,14 @@ export default function LinkAuditor() {
                             <Loader2 size={12} className="animate-spin" /> Checking...
                           </span>
                         ) : (
-                          <div className="flex items-center gap-2">
-                            {row.finalUrl && row.finalUrl !== row.originalUrl && <ArrowRight size={12} className="text-orange-500 shrink-0" />}
-                            <div className="truncate max-w-[300px]" title={row.finalUrl || ""}>
-                              {row.finalUrl || "-"}
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              {row.finalUrl && row.finalUrl !== row.originalUrl && <ArrowRight size={12} className="text-orange-500 shrink-0" />}
+                              <div className="truncate max-w-[300px]" title={row.finalUrl || ""}>
+                                {row.finalUrl || "-"}
+                              </div>
                             </div>
+                            {row.chain && row.chain.hops.length > 0 && <RedirectChainView chain={row.chain} issues={row.issues} />}
                           </div>
                         )}
                       </TableCell>
@@ -275,7 +287,10 @@ export default function LinkAuditor() {
                         {row.status === "success" && <Badge className="bg-green-600">Valid</Badge>}
                         {row.status === "error" && <Badge variant="destructive">Broken</Badge>}
                       </TableCell>
-                      <TableCell className="text-right text-xs font-medium text-red-600">{row.reason}</TableCell>
+                      <TableCell className="text-right text-xs font-medium text-red-600">
+                        {row.reason}
+                        {row.soft404 && <Soft404Confidence verdict={row.soft404} />}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
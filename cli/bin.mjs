@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+// `link-auditor` bin: runs cli/link-auditor.ts through tsx, with the repo's tsconfig so "@/..." imports
+// resolve wherever it is called from. Ctrl+C reaches the CLI itself, which still writes its report.
+import { spawn } from "child_process";
+import { createRequire } from "module";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const tsx = createRequire(import.meta.url).resolve("tsx/cli");
+
+const child = spawn(
+  process.execPath,
+  [tsx, "--tsconfig", path.join(here, "..", "tsconfig.json"), path.join(here, "link-auditor.ts"), ...process.argv.slice(2)],
+  { stdio: "inherit" }
+);
+process.on("SIGINT", () => {});
+child.on("exit", (code, signal) => process.exit(code ?? (signal ? 1 : 0)));
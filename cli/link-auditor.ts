@@ -0,0 +1,386 @@
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { AssetReportItem, BrokenReportItem, ExternalReportItem, PageInventoryItem } from "@/lib/crawler/types";
+import { buildCsv } from "@/lib/exporters/csv";
+import { buildJunitXml } from "@/lib/exporters/junit";
+import { allBrokenTable } from "@/lib/exporters/report-tables";
+import { buildSarif } from "@/lib/exporters/sarif";
+import type { JobEventData, JobState, JobStats } from "@/lib/jobs/types";
+import { DEFAULT_PROFILE_ID, getProfile, isAllowedHost, withLanguages } from "@/lib/profiles";
+import fs from "fs";
+import { parseArgs } from "util";
+
+// --- LINK AUDITOR CLI ---
+// Headless crawls for CI, on the same CrawlJob engine as the UI:
+//   npm run link-auditor -- crawl https://example.com --format junit --output links.xml --max-broken 0
+// or follows a crawl running in the web app:
+//   npm run link-auditor -- watch <job-id> --server http://localhost:3000
+// Exit codes: 0 = at most --max-broken broken links, 1 = more, 2 = bad usage.
+// `npm link` installs it as a `link-auditor` command (cli/bin.mjs).
+
+const FORMATS = ["json", "csv", "junit", "sarif"] as const;
+type Format = (typeof FORMATS)[number];
+
+const DEFAULT_SERVER = "http://localhost:3000";
+
+const USAGE = `Usage: link-auditor crawl <url...> [options]
+       <urls.txt link-auditor crawl - [options]
+       link-auditor watch <job-id> [--server <url>] [--max-broken <n>] [--quiet]
+
+crawl: crawls each start URL (one crawl per URL; "-" reads them from stdin, one per line) and reports broken links.
+watch: follows a crawl running in the web app until it ends, printing broken links as they are found.
+
+Options:
+  --profile <id>       Site profile (default: ${DEFAULT_PROFILE_ID})
+  --max-pages <n>      Pages per crawl
+  --max-depth <n>      Link depth from the start URL (0 = check the listed URLs only)
+  --concurrency <n>    Parallel requests
+  --languages <list>   Language folders of the profile to crawl too, comma-separated (e.g. fr,de)
+  --format <format>    json (default), csv, junit or sarif
+  --output <file>      Write the report here instead of stdout
+  --max-broken <n>     Broken links allowed before exiting with 1 (default: 0)
+  --check-external     Also check outbound links (broken ones count towards --max-broken)
+  --check-assets       Also audit images, scripts, stylesheets and downloads (broken ones count towards --max-broken)
+  --ignore-robots      Don't obey robots.txt
+  --db <path>          SQLite file to keep the crawls in (default: in memory)
+  --server <url>       Web app to watch (default: ${DEFAULT_SERVER})
+  --quiet              No progress on stderr
+  --help`;
+
+interface CrawlOutcome {
+  startUrl: string;
+  state: JobState;
+  startedAt: number;
+  durationMs: number;
+  stats: JobStats;
+  brokenLinks: BrokenReportItem[];
+  pages: PageInventoryItem[];
+  external?: ExternalReportItem[];
+  assets?: AssetReportItem[];
+}
+
+// What fails the verdict, so every report lists exactly what was counted
+const brokenExternal = (outcome: CrawlOutcome) => (outcome.external ?? []).filter((item) => isBrokenStatus(item.status));
+const brokenAssets = (outcome: CrawlOutcome) => (outcome.assets ?? []).filter((item) => isBrokenStatus(item.status));
+
+const POLL_MS = 500;
+// Progress line every this many polls
+const PROGRESS_EVERY = 10;
+
+// watch: wait between reconnects, and how many failed ones in a row to give up after
+const RECONNECT_MS = 2000;
+const MAX_RECONNECTS = 5;
+// watch: progress line at most this often
+const PROGRESS_MS = 5000;
+
+class UsageError extends Error {}
+
+const log = (quiet: boolean, message: string) => {
+  if (!quiet) process.stderr.write(`${message}\n`);
+};
+
+const wholeNumber = (name: string, value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw new UsageError(`--${name} must be a whole number, got "${value}"`);
+  return number;
+};
+
+async function readStdinUrls(): Promise<string[]> {
+  let input = "";
+  for await (const chunk of process.stdin) input += chunk;
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        profile: { type: "string" },
+        "max-pages": { type: "string" },
+        "max-depth": { type: "string" },
+        concurrency: { type: "string" },
+        languages: { type: "string" },
+        format: { type: "string", default: "json" },
+        output: { type: "string" },
+        "max-broken": { type: "string", default: "0" },
+        "check-external": { type: "boolean", default: false },
+        "check-assets": { type: "boolean", default: false },
+        "ignore-robots": { type: "boolean", default: false },
+        db: { type: "string" },
+        server: { type: "string" },
+        quiet: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    });
+  } catch (error) {
+    // Unknown options, missing values
+    throw new UsageError((error as Error).message);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseCommandLine(argv);
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return values.help ? 0 : 2;
+  }
+  const maxBroken = wholeNumber("max-broken", values["max-broken"])!;
+  if (command === "watch") {
+    if (args.length !== 1) throw new UsageError("watch takes one job id");
+    return watch(args[0], values.server || DEFAULT_SERVER, maxBroken, values.quiet);
+  }
+  if (command !== "crawl") throw new UsageError(`Unknown command: ${command}`);
+
+  const format = values.format as Format;
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(", ")}`);
+
+  // Nothing to crawl and nothing piped in: reading stdin would wait on the terminal forever
+  if (args.length === 0 && process.stdin.isTTY) {
+    process.stdout.write(`${USAGE}\n`);
+    return 2;
+  }
+  const urls = args.length === 0 || args.includes("-") ? [...args.filter((arg) => arg !== "-"), ...(await readStdinUrls())] : args;
+  if (urls.length === 0) throw new UsageError("No URL to crawl");
+
+  let profile;
+  const languages = (values.languages ?? "")
+    .split(",")
+    .map((language) => language.trim())
+    .filter(Boolean);
+  try {
+    profile = getProfile(values.profile || DEFAULT_PROFILE_ID);
+    withLanguages(profile, languages);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+  for (const url of urls) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new UsageError(`Invalid url: ${url}`);
+    }
+    if (!isAllowedHost(profile, parsed.hostname)) throw new UsageError(`${url} is not on a host allowed by profile "${profile.id}"`);
+  }
+
+  // The store opens its database on import, so the path has to be set first
+  process.env.CRAWLER_DB_PATH = values.db || ":memory:";
+  const { createJob, DEFAULT_JOB_OPTIONS } = await import("@/lib/jobs/registry");
+
+  const outcomes: CrawlOutcome[] = [];
+  for (const startUrl of urls) {
+    const job = createJob({
+      ...DEFAULT_JOB_OPTIONS,
+      startUrl,
+      profile: profile.id,
+      maxPages: wholeNumber("max-pages", values["max-pages"]) ?? DEFAULT_JOB_OPTIONS.maxPages,
+      maxDepth: wholeNumber("max-depth", values["max-depth"]) ?? DEFAULT_JOB_OPTIONS.maxDepth,
+      concurrency: wholeNumber("concurrency", values.concurrency) || DEFAULT_JOB_OPTIONS.concurrency,
+      strategy: "bfs",
+      respectRobots: !values["ignore-robots"],
+      checkExternal: values["check-external"],
+      checkAssets: values["check-assets"],
+      ...(languages.length > 0 ? { languages } : {}),
+    });
+
+    // Ctrl+C stops the crawl but still writes the report for what was crawled
+    const cancel = () => job.cancel();
+    process.once("SIGINT", cancel);
+    log(values.quiet, `Crawling ${startUrl}`);
+    for (let tick = 1; job.getState() === "running"; tick++) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+      if (tick % PROGRESS_EVERY !== 0) continue;
+      const { stats } = job.snapshot();
+      log(values.quiet, `  ${stats.visited} crawled, ${stats.queued} queued, ${stats.broken + stats.soft404} broken`);
+    }
+    process.removeListener("SIGINT", cancel);
+
+    const snapshot = job.snapshot();
+    outcomes.push({
+      startUrl,
+      state: snapshot.state,
+      startedAt: snapshot.createdAt,
+      durationMs: snapshot.updatedAt - snapshot.createdAt,
+      stats: snapshot.stats,
+      brokenLinks: snapshot.brokenLinks,
+      pages: job.pageInventory(),
+      external: values["check-external"] ? job.externalReport() : undefined,
+      assets: values["check-assets"] ? job.assetReport() : undefined,
+    });
+    if (snapshot.state === "cancelled") break;
+  }
+
+  const broken = outcomes.reduce(
+    (sum, outcome) => sum + outcome.brokenLinks.length + brokenExternal(outcome).length + brokenAssets(outcome).length,
+    0
+  );
+  const passed = broken <= maxBroken;
+
+  let report: string;
+  if (format === "csv") {
+    report = buildCsv(
+      allBrokenTable(
+        outcomes.flatMap((outcome) => outcome.brokenLinks),
+        outcomes.flatMap(brokenExternal),
+        outcomes.flatMap(brokenAssets)
+      )
+    );
+  } else if (format === "junit") report = buildJunitXml(outcomes);
+  else if (format === "sarif") report = buildSarif(outcomes);
+  else {
+    report = `${JSON.stringify(
+      {
+        passed,
+        broken,
+        maxBroken,
+        crawls: outcomes.map((outcome) => ({
+          startUrl: outcome.startUrl,
+          state: outcome.state,
+          stats: outcome.stats,
+          brokenLinks: outcome.brokenLinks,
+          ...(outcome.external ? { brokenExternal: brokenExternal(outcome) } : {}),
+          ...(outcome.assets ? { brokenAssets: brokenAssets(outcome) } : {}),
+        })),
+      },
+      null,
+      2
+    )}\n`;
+  }
+
+  if (values.output) fs.writeFileSync(values.output, report);
+  else process.stdout.write(report);
+
+  return verdict(broken, maxBroken, values.quiet);
+}
+
+function verdict(broken: number, maxBroken: number, quiet: boolean): number {
+  const passed = broken <= maxBroken;
+  log(quiet, `${broken} broken link${broken === 1 ? "" : "s"} (allowed: ${maxBroken}): ${passed ? "passed" : "failed"}`);
+  return passed ? 0 : 1;
+}
+
+// --- WATCH ---
+// Follows /api/jobs/:id/events, reconnecting with Last-Event-ID so no broken link is missed.
+// Broken links go to stdout (status, URL, source page; tab-separated), progress to stderr; broken outbound
+// links and assets follow in the same format when the crawl ends.
+
+interface StreamMessage {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    for (let end = buffer.indexOf("\n\n"); end >= 0; end = buffer.indexOf("\n\n")) {
+      const message: StreamMessage = { id: null, event: "message", data: "" };
+      buffer
+        .slice(0, end)
+        .split("\n")
+        // ":" lines are heartbeats
+        .filter((line) => line && !line.startsWith(":"))
+        .forEach((line) => {
+          const [field, ...rest] = line.split(":");
+          const value = rest.join(":").replace(/^ /, "");
+          if (field === "id") message.id = value;
+          else if (field === "event") message.event = value;
+          else if (field === "data") message.data += message.data ? `\n${value}` : value;
+        });
+      buffer = buffer.slice(end + 2);
+      if (message.data) yield message;
+    }
+  }
+}
+
+// Broken outbound links and assets aren't streamed as events; listed from the job's reports once it ends
+async function printBrokenResources(jobId: string, server: string, stats: JobStats): Promise<void> {
+  const report = async <T>(name: string): Promise<T> => {
+    const response = await fetch(new URL(`/api/jobs/${encodeURIComponent(jobId)}/reports/${name}`, server));
+    if (!response.ok) throw new Error(`Can't load the ${name} report (HTTP ${response.status})`);
+    return (await response.json()) as T;
+  };
+  // Same lines as broken-link events: status, URL, page using it
+  const lines: string[] = [];
+  if (stats.externalBroken > 0) {
+    const { external } = await report<{ external: ExternalReportItem[] }>("external");
+    for (const item of external.filter((entry) => isBrokenStatus(entry.status)))
+      lines.push(...item.foundOn.map((page) => `${item.status}\t${item.url}\t${page}\n`));
+  }
+  if (stats.assetsBroken > 0) {
+    const { assets } = await report<{ assets: AssetReportItem[] }>("assets");
+    for (const item of assets.filter((entry) => isBrokenStatus(entry.status)))
+      lines.push(...item.usedOn.map((page) => `${item.status}\t${item.url}\t${page}\n`));
+  }
+  process.stdout.write(lines.join(""));
+}
+
+async function watch(jobId: string, server: string, maxBroken: number, quiet: boolean): Promise<number> {
+  let url: URL;
+  try {
+    url = new URL(`/api/jobs/${encodeURIComponent(jobId)}/events`, server);
+  } catch {
+    throw new UsageError(`Invalid server url: ${server}`);
+  }
+
+  let lastEventId: string | null = null;
+  let failures = 0;
+  let progressAt = 0;
+  for (;;) {
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, { headers: lastEventId ? { "Last-Event-ID": lastEventId } : {} });
+    } catch {
+      // Server down or restarting; retried below
+    }
+    if (response?.status === 404) throw new Error(`Job not found: ${jobId}`);
+    if (!response?.ok || !response.body) {
+      if (++failures > MAX_RECONNECTS) throw new Error(`Can't reach ${url.origin}`);
+      await new Promise((resolve) => setTimeout(resolve, RECONNECT_MS));
+      continue;
+    }
+    failures = 0;
+
+    try {
+      for await (const message of readEvents(response.body)) {
+        if (message.id) lastEventId = message.id;
+        const event = JSON.parse(message.data) as JobEventData;
+        if (event.type === "broken-link") process.stdout.write(`${event.status}\t${event.url}\t${event.foundOnPage}\n`);
+        if (event.type !== "stats") continue;
+
+        const { state, stats } = event;
+        if (state === "completed" || state === "cancelled") {
+          log(quiet, `Crawl ${state}: ${stats.visited} crawled`);
+          await printBrokenResources(jobId, server, stats);
+          return verdict(stats.broken + stats.soft404 + stats.externalBroken + stats.assetsBroken, maxBroken, quiet);
+        }
+        if (Date.now() - progressAt >= PROGRESS_MS) {
+          progressAt = Date.now();
+          log(quiet, `  ${state}: ${stats.visited} crawled, ${stats.queued} queued, ${stats.broken + stats.soft404} broken`);
+        }
+      }
+    } catch {
+      // Connection dropped mid-stream; reconnect and replay from lastEventId
+    }
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    process.stderr.write(`link-auditor: ${(error as Error).message}\n`);
+    if (error instanceof UsageError) process.stderr.write("Run with --help for usage.\n");
+    process.exit(error instanceof UsageError ? 2 : 1);
+  });
@@ -0,0 +1,11 @@
+import { fetchErrorLabel } from "@/lib/crawler/errors";
+import type { FetchError } from "@/lib/crawler/types";
+
+// "Timeout (ECONNABORTED, 3 attempts)", with the raw error message on hover
+export function FetchErrorBadge({ error }: { error: FetchError }) {
+  return (
+    <span className="block text-[10px] text-red-600 font-sans mt-0.5" title={error.message}>
+      {fetchErrorLabel(error)}
+    </span>
+  );
+}
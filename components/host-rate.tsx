@@ -0,0 +1,26 @@
+import type { HostRate } from "@/lib/crawler/types";
+
+const SLOWDOWN_LABELS: Record<NonNullable<HostRate["lastSlowdown"]>, string> = {
+  "429": "429 Too Many Requests",
+  "503": "503 Service Unavailable",
+  timeout: "timeouts",
+  latency: "slow responses",
+};
+
+const describe = (rate: HostRate) =>
+  `${rate.host}: ${rate.requestsPerSecond} req/s, ${rate.delayMs}ms between requests, ${rate.active}/${rate.concurrency} in flight` +
+  (rate.latencyMs !== null ? `, ~${rate.latencyMs}ms per page` : "") +
+  (rate.throttled && rate.lastSlowdown ? ` (slowed down after ${SLOWDOWN_LABELS[rate.lastSlowdown]})` : "");
+
+// Effective request rate of the busiest host; every host's details on hover
+export function HostRateBadge({ rates }: { rates: HostRate[] }) {
+  const busiest = rates[0];
+  if (!busiest) return null;
+
+  return (
+    <span className={busiest.throttled ? "text-amber-600" : "text-slate-500"} title={rates.map(describe).join("\n")}>
+      Rate: <b>{busiest.requestsPerSecond}</b> req/s
+      {busiest.throttled && busiest.lastSlowdown && <> · slowed ({busiest.lastSlowdown})</>}
+    </span>
+  );
+}
@@ -0,0 +1,67 @@
+import type { LinkContext, LinkSource } from "@/lib/crawler/types";
+
+// rel tokens editors care about (the rest, like noopener, are noise here)
+const HIGHLIGHTED_REL = ["nofollow", "sponsored", "ugc"];
+
+// Opens the page scrolled to the link's text (scroll-to-text fragment; ignored by browsers without support)
+export function linkLocationUrl(pageUrl: string, context?: LinkContext): string {
+  if (!context?.anchorText || context.anchorText.startsWith("[img]")) return pageUrl;
+  return `${pageUrl.split("#")[0]}#:~:text=${encodeURIComponent(context.anchorText)}`;
+}
+
+// Where the link sits on its page: "anchor text" under "Heading" (or the CSS path), rel flags, repeat count
+export function LinkContextView({ context }: { context: LinkContext }) {
+  const rel = context.rel.filter((token) => HIGHLIGHTED_REL.includes(token));
+
+  return (
+    <div className="space-y-0.5 text-[11px] mt-1">
+      <div className="flex gap-1.5 items-center flex-wrap">
+        <span className="text-slate-700 font-sans">&ldquo;{context.anchorText || "no anchor text"}&rdquo;</span>
+        {rel.map((token) => (
+          <span key={token} className="text-[9px] font-bold bg-slate-100 text-slate-600 px-1.5 rounded border border-slate-200 uppercase">
+            {token}
+          </span>
+        ))}
+        {context.occurrences > 1 && <span className="text-slate-400">×{context.occurrences} on page</span>}
+      </div>
+      <div className="text-slate-400 break-all" title={context.selector}>
+        {context.heading ? `under “${context.heading}”` : context.selector}
+      </div>
+    </div>
+  );
+}
+
+function LinkSourceRow({ source }: { source: LinkSource }) {
+  return (
+    <div>
+      <a href={linkLocationUrl(source.page, source.context)} target="_blank" className="text-slate-500 hover:text-indigo-600 hover:underline">
+        {source.page}
+      </a>
+      {source.context && <LinkContextView context={source.context} />}
+    </div>
+  );
+}
+
+// Every page linking to a URL: the discoverer shown, the rest behind a toggle
+export function LinkSourcesView({ sources, fallback }: { sources: LinkSource[]; fallback: string }) {
+  if (sources.length === 0) return <span className="text-slate-400">{fallback}</span>;
+  const [first, ...rest] = sources;
+
+  return (
+    <div className="space-y-1">
+      <LinkSourceRow source={first} />
+      {rest.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-[11px] text-indigo-600 font-sans">
+            Linked from {sources.length} pages (+{rest.length} more)
+          </summary>
+          <div className="space-y-2 mt-1 pl-2 border-l border-slate-200">
+            {rest.map((source) => (
+              <LinkSourceRow key={source.page} source={source} />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { fetchErrorLabel } from "@/lib/crawler/errors";
+import type { RedirectChain, RedirectIssue } from "@/lib/crawler/types";
+
+const ISSUE_LABELS: Record<RedirectIssue, string> = {
+  loop: "LOOP",
+  "too-many-hops": "LONG CHAIN",
+  temporary: "302 → 301?",
+  "broken-target": "DEAD END",
+};
+
+// Every hop of a redirect chain: "301 https://a -> https://b", then where it ended
+export function RedirectChainView({ chain, issues = [] }: { chain: RedirectChain; issues?: RedirectIssue[] }) {
+  return (
+    <div className="space-y-0.5 text-[11px] font-mono">
+      {chain.hops.map((hop, i) => (
+        <div key={`${hop.url}-${i}`} className="flex gap-1.5 items-start">
+          <span className={`shrink-0 font-bold ${hop.statusCode === 302 || hop.statusCode === 307 ? "text-amber-600" : "text-blue-600"}`}>
+            {hop.statusCode}
+          </span>
+          <span className="text-slate-400">→</span>
+          <a href={hop.location} target="_blank" className="text-blue-500 hover:underline break-all">
+            {hop.location}
+          </a>
+        </div>
+      ))}
+      <div className="text-slate-400">
+        {chain.loop
+          ? "loops back"
+          : chain.truncated
+            ? "gave up following"
+            : chain.blocked
+              ? "blocked by robots.txt"
+              : `ends with ${chain.finalStatus ?? (chain.error ? fetchErrorLabel(chain.error) : "no response")}`}
+      </div>
+      {issues.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {issues.map((issue) => (
+            <span key={issue} className="text-[9px] font-bold bg-amber-100 text-amber-700 px-1.5 rounded border border-amber-200">
+              {ISSUE_LABELS[issue]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
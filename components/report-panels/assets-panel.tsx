@@ -0,0 +1,52 @@
+import { PageList, ReportPlaceholder, ReportTable, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { StatusBadge } from "@/components/status-badge";
+import { useJobReport } from "@/hooks/use-job-report";
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { AssetReportItem } from "@/lib/crawler/types";
+
+// Broken images, downloads, scripts and stylesheets, with every page that uses them
+export function AssetsPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<{ assets: AssetReportItem[] }>(jobId, "assets");
+
+  if (!report) return <ReportPlaceholder jobId={jobId} idle='Start a crawl with "Audit assets" checked.' error={error} onRetry={reload} />;
+
+  const { assets } = report;
+  const broken = assets.filter((item) => isBrokenStatus(item.status));
+
+  return (
+    <div className="flex-1 overflow-y-auto text-xs">
+      <ReportToolbar onRefresh={reload} error={error} className="p-4">
+        <Stat label="Assets" value={assets.length} color="text-indigo-600" />
+        <Stat label="Broken" value={broken.length} color="text-red-600" />
+        <Stat label="Unchecked" value={assets.filter((item) => item.status === "pending").length} color="text-slate-600" />
+      </ReportToolbar>
+      <ReportTable
+        columns={[
+          { label: "Status", className: "w-28" },
+          { label: "Type", className: "w-20" },
+          { label: "Asset", className: "w-1/3" },
+          { label: "Used On Pages" },
+        ]}
+        empty={broken.length === 0 && "No broken assets found."}
+      >
+        {broken.map((item) => (
+          <tr key={item.url} className="hover:bg-slate-50 align-top">
+            <td className="p-3">
+              <StatusBadge status={item.status} />
+              {item.label && <div className="text-[10px] text-slate-400 mt-0.5">{item.label}</div>}
+            </td>
+            <td className="p-3 uppercase text-[10px] font-bold text-slate-400">{item.kind}</td>
+            <td className="p-3 break-all">
+              <a href={item.url} target="_blank" className="hover:underline">
+                {item.url}
+              </a>
+            </td>
+            <td className="p-3 break-all text-slate-500">
+              <PageList pages={item.usedOn} />
+            </td>
+          </tr>
+        ))}
+      </ReportTable>
+    </div>
+  );
+}
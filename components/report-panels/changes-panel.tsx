@@ -0,0 +1,184 @@
+import { PanelMessage } from "@/components/report-panels/report-panel";
+import { StatusBadge } from "@/components/status-badge";
+import { requestError } from "@/hooks/use-job-report";
+import type { CrawlDiff, CrawlDiffItem, CrawlerState } from "@/lib/crawler/types";
+import { buildDiffMarkdown } from "@/lib/exporters/diff-markdown";
+import type { JobSummary } from "@/lib/jobs/types";
+import axios from "axios";
+import { Download, Upload } from "lucide-react";
+import React, { useCallback, useEffect, useState } from "react";
+
+// What changed since an earlier run: a stored crawl of the same site, or a saved state file
+export function ChangesPanel({ jobId, startUrl }: { jobId: string | null; startUrl: string | null }) {
+  const [runs, setRuns] = useState<JobSummary[]>([]);
+  // Stored run being compared with ("" = a saved state file, or nothing yet)
+  const [baseId, setBaseId] = useState("");
+  const [diff, setDiff] = useState<CrawlDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = useCallback(
+    (base: string | CrawlerState, baseLabel?: string) => {
+      setError(null);
+      setBaseId(typeof base === "string" ? base : "");
+      axios
+        .post<CrawlDiff>("/api/diff", { base, baseLabel, head: jobId })
+        .then(({ data }) => setDiff(data))
+        .catch((failure) => setError(requestError(failure)));
+    },
+    [jobId]
+  );
+
+  // Compare with the latest earlier run right away
+  useEffect(() => {
+    if (!jobId) return;
+    axios
+      .get<{ jobs: JobSummary[] }>("/api/jobs")
+      .then(({ data }) => {
+        const earlier = data.jobs.filter((run) => run.id !== jobId && run.options.startUrl === startUrl);
+        setRuns(earlier);
+        if (earlier[0]) compare(earlier[0].id);
+      })
+      .catch((failure) => setError(requestError(failure)));
+  }, [jobId, startUrl, compare]);
+
+  const compareWithFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => {
+      try {
+        compare(JSON.parse(text) as CrawlerState, file.name);
+      } catch {
+        setError("Invalid File");
+      }
+    });
+  };
+
+  if (!jobId) return <PanelMessage>Start a crawl to compare it with an earlier run.</PanelMessage>;
+
+  const sections: [string, CrawlDiffItem[], string][] = diff
+    ? [
+        ["Newly broken", diff.newlyBroken, "text-red-600"],
+        ["Fixed", diff.fixed, "text-emerald-600"],
+        ["Status changes", diff.statusChanges, "text-amber-600"],
+        ["New pages", diff.newPages, "text-indigo-600"],
+        ["Removed pages", diff.removedPages, "text-slate-600"],
+      ]
+    : [];
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+      <div className="flex gap-2 items-center text-slate-500 flex-wrap">
+        <span>Compare with:</span>
+        <select className="border border-slate-300 rounded px-2 py-1" onChange={(e) => e.target.value && compare(e.target.value)} value={baseId}>
+          <option value="">{runs.length > 0 ? "an earlier run..." : "no earlier runs of this site"}</option>
+          {runs.map((run) => (
+            <option key={run.id} value={run.id}>
+              {new Date(run.createdAt).toLocaleString()} ({run.stats.visited.toLocaleString()} pages, {run.stats.broken} broken)
+            </option>
+          ))}
+        </select>
+        <label className="btn-secondary">
+          <Upload size={14} /> Saved state
+          <input type="file" onChange={compareWithFile} className="hidden" accept=".json" />
+        </label>
+        {diff && (
+          <>
+            <button
+              onClick={() => downloadFile("crawl-diff.json", JSON.stringify(diff, null, 2), "application/json")}
+              className="btn-secondary ml-auto"
+            >
+              <Download size={14} /> JSON
+            </button>
+            <button onClick={() => downloadFile("crawl-diff.md", buildDiffMarkdown(diff), "text/markdown")} className="btn-secondary">
+              <Download size={14} /> Markdown
+            </button>
+          </>
+        )}
+      </div>
+      {error && <div className="text-red-500 font-mono">{error}</div>}
+
+      {diff && (
+        <>
+          <div className="flex gap-4 text-slate-500 flex-wrap">
+            <span>
+              Before: <b className="text-slate-700">{diff.base.label}</b>
+            </span>
+            {sections.map(([title, items, color]) => (
+              <span key={title}>
+                {title}: <b className={color}>{items.length.toLocaleString()}</b>
+              </span>
+            ))}
+            <span>
+              Redirect targets: <b className="text-blue-600">{diff.redirectChanges.length.toLocaleString()}</b>
+            </span>
+          </div>
+          {(!diff.base.hasSiteMap || !diff.head.hasSiteMap) && (
+            <div className="text-slate-400 italic">One of the crawls has no site map, so only broken links were compared.</div>
+          )}
+          {(diff.base.partial || diff.head.partial) && (
+            <div className="text-slate-400 italic">
+              One of the crawls didn&apos;t finish (stopped or capped by max pages), so only pages both crawls fetched were compared.
+            </div>
+          )}
+
+          {sections
+            .filter(([, items]) => items.length > 0)
+            .map(([title, items]) => (
+              <div key={title}>
+                <h4 className="font-bold text-slate-700 mb-2">
+                  {title} ({items.length})
+                </h4>
+                <table className="w-full text-left font-mono">
+                  <tbody className="divide-y divide-slate-100">
+                    {items.map((item) => (
+                      <tr key={item.url} className="align-top">
+                        <td className="py-1 pr-4 w-32 whitespace-nowrap">
+                          {item.before ? <StatusBadge status={item.before} /> : <span className="opacity-20">-</span>}
+                          <span className="text-slate-400"> → </span>
+                          {item.after ? <StatusBadge status={item.after} /> : <span className="text-slate-400">unlinked</span>}
+                        </td>
+                        <td className="py-1 pr-4 break-all">
+                          <a href={item.url} target="_blank" className="text-slate-600 hover:underline">
+                            {item.url}
+                          </a>
+                        </td>
+                        <td className="py-1 text-slate-400 break-all">{item.foundOnPage}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+
+          {diff.redirectChanges.length > 0 && (
+            <div>
+              <h4 className="font-bold text-slate-700 mb-2">Redirect target changes ({diff.redirectChanges.length})</h4>
+              <table className="w-full text-left font-mono">
+                <tbody className="divide-y divide-slate-100">
+                  {diff.redirectChanges.map((item) => (
+                    <tr key={item.url} className="align-top">
+                      <td className="py-1 pr-4 break-all text-slate-600">{item.url}</td>
+                      <td className="py-1 pr-4 break-all text-slate-400 line-through">{item.before ?? "-"}</td>
+                      <td className="py-1 break-all text-blue-500">{item.after ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,50 @@
+import { PageList, ReportPlaceholder, ReportTable, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { StatusBadge } from "@/components/status-badge";
+import { useJobReport } from "@/hooks/use-job-report";
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { ExternalReportItem } from "@/lib/crawler/types";
+
+// Outbound links, checked once each; broken ones first
+export function ExternalLinksPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<{ external: ExternalReportItem[] }>(jobId, "external");
+
+  if (!report) {
+    return <ReportPlaceholder jobId={jobId} idle='Start a crawl with "Check external links" checked.' error={error} onRetry={reload} />;
+  }
+
+  const { external } = report;
+  const broken = external.filter((item) => isBrokenStatus(item.status));
+  const sorted = [...broken, ...external.filter((item) => !broken.includes(item))];
+
+  return (
+    <div className="flex-1 overflow-y-auto text-xs">
+      <ReportToolbar onRefresh={reload} error={error} className="p-4">
+        <Stat label="External URLs" value={external.length} color="text-indigo-600" />
+        <Stat label="Broken" value={broken.length} color="text-red-600" />
+        <Stat label="Unchecked" value={external.filter((item) => item.status === "pending").length} color="text-slate-600" />
+      </ReportToolbar>
+      <ReportTable
+        columns={[{ label: "Status", className: "w-28" }, { label: "External Link", className: "w-1/3" }, { label: "Found On Pages" }]}
+        empty={external.length === 0 && "No external links found."}
+      >
+        {sorted.map((item) => (
+          <tr key={item.url} className="hover:bg-slate-50 align-top">
+            <td className="p-3">
+              <StatusBadge status={item.status} />
+              {item.label && <div className="text-[10px] text-slate-400 mt-0.5">{item.label}</div>}
+            </td>
+            <td className="p-3 break-all">
+              <a href={item.url} target="_blank" className="hover:underline">
+                {item.url}
+              </a>
+              {item.finalUrl && <div className="text-slate-400 mt-0.5">→ {item.finalUrl}</div>}
+            </td>
+            <td className="p-3 break-all text-slate-500">
+              <PageList pages={item.foundOn} />
+            </td>
+          </tr>
+        ))}
+      </ReportTable>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { EmptyRow, ReportPlaceholder, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { useJobReport } from "@/hooks/use-job-report";
+import type { HreflangIssueKind, HreflangReport } from "@/lib/crawler/types";
+
+const HREFLANG_ISSUES: Record<HreflangIssueKind, string> = {
+  "invalid-code": "Invalid code",
+  "missing-self-reference": "No self-reference",
+  "missing-x-default": "No x-default",
+  "no-return-link": "No return link",
+  "broken-alternate": "Broken alternate",
+  "redirected-alternate": "Redirected alternate",
+};
+
+// Per-language page and broken counts, then every page whose hreflang alternates are wrong
+export function HreflangPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<HreflangReport>(jobId, "hreflang");
+
+  if (!report) return <ReportPlaceholder jobId={jobId} idle="Start a crawl to validate its hreflang alternates." error={error} onRetry={reload} />;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+      <ReportToolbar onRefresh={reload} error={error}>
+        <Stat label="Pages with alternates" value={report.pagesWithAlternates} color="text-indigo-600" />
+        <Stat label="Issues" value={report.issues.length} color="text-red-600" />
+      </ReportToolbar>
+
+      <div>
+        <h4 className="font-bold text-slate-700 mb-2">Languages</h4>
+        <div className="flex flex-wrap gap-2 font-mono">
+          {report.languages.map((item) => (
+            <span key={item.language} className="px-2 py-1 rounded border border-slate-200 bg-slate-50">
+              {item.language}: {item.pages.toLocaleString()} pages,{" "}
+              <b className={item.broken > 0 ? "text-red-600" : "text-emerald-600"}>{item.broken.toLocaleString()} broken</b>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <table className="w-full text-left font-mono">
+        <thead className="text-slate-500 text-[11px] uppercase font-bold">
+          <tr>
+            <th className="py-1 pr-4 w-40">Issue</th>
+            <th className="py-1 pr-4">Page</th>
+            <th className="py-1 pr-4 w-20">Hreflang</th>
+            <th className="py-1">Alternate</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-slate-600">
+          {report.issues.map((issue) => (
+            <tr key={`${issue.page} ${issue.kind} ${issue.hreflang} ${issue.alternate}`}>
+              <td className="py-1 pr-4 text-red-600 font-bold">
+                {HREFLANG_ISSUES[issue.kind]}
+                {issue.status && <span className="text-slate-400 font-normal"> ({issue.status})</span>}
+              </td>
+              <td className="py-1 pr-4 break-all">
+                <a href={issue.page} target="_blank" className="hover:underline">
+                  {issue.page}
+                </a>
+              </td>
+              <td className="py-1 pr-4">{issue.hreflang ?? "–"}</td>
+              <td className="py-1 break-all text-slate-400">{issue.alternate ?? "–"}</td>
+            </tr>
+          ))}
+          {report.issues.length === 0 && (
+            <EmptyRow colSpan={4}>
+              {report.pagesWithAlternates > 0 ? "Every hreflang set checks out." : "No crawled page declares hreflang alternates."}
+            </EmptyRow>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { EmptyRow, ReportPlaceholder, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { useJobReport } from "@/hooks/use-job-report";
+import type { IndexingIssueKind, IndexingReport } from "@/lib/crawler/types";
+
+const INDEXING_ISSUES: Record<IndexingIssueKind, string> = {
+  "broken-canonical": "Broken canonical",
+  "redirected-canonical": "Redirected canonical",
+  "canonical-chain": "Canonical chain",
+  "noindex-in-navigation": "Noindex in menu",
+  "noindex-in-sitemap": "Noindex in sitemap",
+};
+
+// Canonical and noindex problems, then the pages crawled through their canonical instead
+export function IndexingPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<IndexingReport>(jobId, "indexing");
+
+  if (!report) return <ReportPlaceholder jobId={jobId} idle="Start a crawl to check canonicals and noindex pages." error={error} onRetry={reload} />;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+      <ReportToolbar onRefresh={reload} error={error}>
+        <Stat label="Duplicates" value={report.duplicates.length} color="text-indigo-600" />
+        <Stat label="Noindex" value={report.noindex.length} color="text-slate-700" />
+        <Stat label="Issues" value={report.issues.length} color="text-red-600" />
+      </ReportToolbar>
+
+      <table className="w-full text-left font-mono">
+        <thead className="text-slate-500 text-[11px] uppercase font-bold">
+          <tr>
+            <th className="py-1 pr-4 w-40">Issue</th>
+            <th className="py-1 pr-4">Page</th>
+            <th className="py-1">Canonical</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-slate-600">
+          {report.issues.map((issue) => (
+            <tr key={`${issue.page} ${issue.kind}`}>
+              <td className="py-1 pr-4 text-red-600 font-bold">
+                {INDEXING_ISSUES[issue.kind]}
+                {issue.status && <span className="text-slate-400 font-normal"> ({issue.status})</span>}
+              </td>
+              <td className="py-1 pr-4 break-all">
+                <a href={issue.page} target="_blank" className="hover:underline">
+                  {issue.page}
+                </a>
+              </td>
+              <td className="py-1 break-all text-slate-400">
+                {issue.canonical ?? "–"}
+                {issue.chainsTo && <div>→ {issue.chainsTo}</div>}
+              </td>
+            </tr>
+          ))}
+          {report.issues.length === 0 && <EmptyRow colSpan={3}>No canonical or noindex problems found.</EmptyRow>}
+        </tbody>
+      </table>
+
+      {report.duplicates.length > 0 && (
+        <div>
+          <h4 className="font-bold text-slate-700 mb-2">Crawled through their canonical ({report.duplicates.length})</h4>
+          <table className="w-full text-left font-mono">
+            <tbody className="divide-y divide-slate-100">
+              {report.duplicates.map((item) => (
+                <tr key={item.url}>
+                  <td className="py-1 pr-4 break-all text-slate-600">{item.url}</td>
+                  <td className="py-1 break-all text-slate-400">→ {item.canonical}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { RedirectChainView } from "@/components/redirect-chain";
+import { ReportPlaceholder, ReportTable, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { useJobReport } from "@/hooks/use-job-report";
+import type { RedirectReportItem } from "@/lib/crawler/types";
+
+// Every redirect the crawl followed, chains with issues first
+export function RedirectsPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<{ redirects: RedirectReportItem[] }>(jobId, "redirects");
+
+  if (!report) return <ReportPlaceholder jobId={jobId} idle="Start a crawl to collect redirect chains." error={error} onRetry={reload} />;
+
+  const { redirects } = report;
+  const sorted = [...redirects].sort((a, b) => b.issues.length - a.issues.length);
+
+  return (
+    <div className="flex-1 overflow-y-auto text-xs">
+      <ReportToolbar onRefresh={reload} error={error} className="p-4">
+        <Stat label="Redirects" value={redirects.length} color="text-blue-600" />
+        <Stat label="With issues" value={redirects.filter((item) => item.issues.length > 0).length} color="text-amber-600" />
+      </ReportToolbar>
+      <ReportTable
+        columns={[{ label: "URL", className: "w-1/3" }, { label: "Chain" }, { label: "Found On Page", className: "w-1/4" }]}
+        empty={redirects.length === 0 && "No redirects found."}
+      >
+        {sorted.map((item) => (
+          <tr key={item.url} className="hover:bg-slate-50 align-top">
+            <td className="p-3 break-all">
+              <a href={item.url} target="_blank" className="hover:underline">
+                {item.url}
+              </a>
+            </td>
+            <td className="p-3">
+              <RedirectChainView chain={item.chain} issues={item.issues} />
+            </td>
+            <td className="p-3 break-all text-slate-500">{item.foundOnPage}</td>
+          </tr>
+        ))}
+      </ReportTable>
+    </div>
+  );
+}
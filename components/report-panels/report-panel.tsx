@@ -0,0 +1,118 @@
+import { RefreshCw } from "lucide-react";
+import React from "react";
+
+// --- BUILDING BLOCKS OF THE REPORT TABS ---
+
+const PLACEHOLDER = "p-20 text-center text-slate-300 italic text-sm";
+
+// Centered grey note in place of a report
+export function PanelMessage({ children }: { children: React.ReactNode }) {
+  return <div className={PLACEHOLDER}>{children}</div>;
+}
+
+// Until the report is there: no job yet (`idle`), the request failed (with a retry), or still loading
+export function ReportPlaceholder({
+  jobId,
+  idle,
+  error,
+  onRetry,
+}: {
+  jobId: string | null;
+  idle: React.ReactNode;
+  error: string | null;
+  onRetry: () => void;
+}) {
+  if (!jobId) return <PanelMessage>{idle}</PanelMessage>;
+  if (!error) return <PanelMessage>Loading...</PanelMessage>;
+
+  return (
+    <div className="p-20 text-center text-sm">
+      <div className="text-red-500 font-mono text-xs">Couldn&apos;t load the report: {error}</div>
+      <button onClick={onRetry} className="mt-2 inline-flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-600">
+        <RefreshCw size={12} /> Retry
+      </button>
+    </div>
+  );
+}
+
+// Counters, then Refresh on the right (with the error when a refresh failed)
+export function ReportToolbar({
+  onRefresh,
+  error,
+  className = "",
+  children,
+}: {
+  onRefresh: () => void;
+  error: string | null;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={`flex gap-4 items-center text-slate-500 ${className}`}>
+      {children}
+      <span className="ml-auto text-red-500 font-mono">{error}</span>
+      <button onClick={onRefresh} className="flex items-center gap-1 hover:text-indigo-600">
+        <RefreshCw size={12} /> Refresh
+      </button>
+    </div>
+  );
+}
+
+// "Broken: 12"
+export function Stat({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <span>
+      {label}: <b className={color}>{value.toLocaleString()}</b>
+    </span>
+  );
+}
+
+// Full-width table with a sticky header; `empty` replaces the rows when there are none
+export function ReportTable({
+  columns,
+  empty,
+  children,
+}: {
+  columns: { label: string; className?: string }[];
+  empty: string | false;
+  children: React.ReactNode;
+}) {
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead className="bg-slate-100 text-slate-500 text-[11px] uppercase font-bold sticky top-0 z-10 shadow-sm tracking-wide">
+        <tr>
+          {columns.map((column) => (
+            <th key={column.label} className={`p-3 ${column.className ?? ""}`.trim()}>
+              {column.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100 font-mono text-slate-600">
+        {children}
+        {empty && <EmptyRow colSpan={columns.length}>{empty}</EmptyRow>}
+      </tbody>
+    </table>
+  );
+}
+
+export function EmptyRow({ colSpan, children }: { colSpan: number; children: React.ReactNode }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className={PLACEHOLDER}>
+        {children}
+      </td>
+    </tr>
+  );
+}
+
+// Pages linking to / using a URL, one per line
+export function PageList({ pages }: { pages: string[] }) {
+  return (
+    <>
+      {pages.map((page) => (
+        <div key={page}>{page}</div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+import { ReportPlaceholder, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { StatusBadge } from "@/components/status-badge";
+import { useJobReport } from "@/hooks/use-job-report";
+import type { SitemapCoverage } from "@/lib/crawler/types";
+
+// Orphans = in the sitemap but never linked; Missing = crawled but not in the sitemap
+export function SitemapCoveragePanel({ jobId }: { jobId: string | null }) {
+  const { report: coverage, error, reload } = useJobReport<SitemapCoverage>(jobId, "sitemap");
+
+  if (!coverage) return <ReportPlaceholder jobId={jobId} idle="Start a crawl to compare it with the sitemap." error={error} onRetry={reload} />;
+
+  if (coverage.sitemapUrls === 0) {
+    return (
+      <div className="p-20 text-center text-slate-400 text-sm">
+        No sitemap found for this crawl.
+        {coverage.errors.map((message) => (
+          <div key={message} className="text-red-500 text-xs mt-2 font-mono">
+            {message}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+      <ReportToolbar onRefresh={reload} error={error}>
+        <Stat label="Sitemap" value={coverage.sitemapUrls} color="text-indigo-600" />
+        <Stat label="Crawled OK" value={coverage.crawledPages} color="text-emerald-600" />
+      </ReportToolbar>
+      {coverage.errors.map((message) => (
+        <div key={message} className="text-red-500 font-mono">
+          {message}
+        </div>
+      ))}
+
+      <div>
+        <h4 className="font-bold text-slate-700 mb-2">Orphans ({coverage.orphans.length}): in the sitemap, linked from nowhere</h4>
+        <div className="font-mono space-y-1">
+          {coverage.orphans.map((item) => (
+            <div key={item.url} className="flex gap-2 items-center">
+              <StatusBadge status={item.status} />
+              <a href={item.url} target="_blank" className="text-slate-600 hover:underline break-all">
+                {item.url}
+              </a>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-bold text-slate-700 mb-2">Missing from sitemap ({coverage.missingFromSitemap.length})</h4>
+        <table className="w-full text-left font-mono">
+          <tbody className="divide-y divide-slate-100">
+            {coverage.missingFromSitemap.map((item) => (
+              <tr key={item.url}>
+                <td className="py-1 pr-4 break-all">
+                  <a href={item.url} target="_blank" className="text-slate-600 hover:underline">
+                    {item.url}
+                  </a>
+                </td>
+                <td className="py-1 text-slate-400 break-all">{item.foundOnPage}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { ReportPlaceholder, ReportTable, ReportToolbar, Stat } from "@/components/report-panels/report-panel";
+import { useJobReport } from "@/hooks/use-job-report";
+import type { UrlRuleReportItem } from "@/lib/crawler/types";
+import React, { useState } from "react";
+
+// The profile's include/exclude rules in the order they are checked, with what each kept out of the crawl
+export function UrlRulesPanel({ jobId }: { jobId: string | null }) {
+  const { report, error, reload } = useJobReport<{ rules: UrlRuleReportItem[] }>(jobId, "rules");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (!report) return <ReportPlaceholder jobId={jobId} idle="Start a crawl to see what the URL rules filter out." error={error} onRetry={reload} />;
+
+  const { rules } = report;
+
+  return (
+    <div className="flex-1 overflow-y-auto text-xs">
+      <ReportToolbar onRefresh={reload} error={error} className="p-4">
+        <span>First matching rule wins; URLs no rule matches are crawled.</span>
+        <Stat label="Excluded" value={rules.reduce((sum, rule) => sum + rule.hits, 0)} color="text-slate-700" />
+      </ReportToolbar>
+      <ReportTable
+        columns={[
+          { label: "#", className: "w-10" },
+          { label: "Action", className: "w-24" },
+          { label: "Rule" },
+          { label: "Matches", className: "w-28" },
+          { label: "Hits", className: "w-28 text-right" },
+        ]}
+        empty={rules.length === 0 && "The profile has no URL rules."}
+      >
+        {rules.map((rule, index) => (
+          <React.Fragment key={rule.label}>
+            <tr
+              onClick={() => rule.hits > 0 && setExpanded(expanded === rule.label ? null : rule.label)}
+              className={`hover:bg-slate-50 ${rule.hits > 0 ? "cursor-pointer" : ""}`}
+            >
+              <td className="p-3 text-slate-400">{index + 1}</td>
+              <td className="p-3">
+                <span
+                  className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
+                    rule.action === "exclude" ? "bg-red-100 text-red-700" : "bg-emerald-100 text-emerald-700"
+                  }`}
+                >
+                  {rule.action}
+                </span>
+              </td>
+              <td className="p-3 break-all">{rule.label}</td>
+              <td className="p-3 text-slate-400">{rule.matcher ?? "(removed)"}</td>
+              <td className="p-3 text-right font-bold">{rule.action === "exclude" ? rule.hits.toLocaleString() : "–"}</td>
+            </tr>
+            {expanded === rule.label && (
+              <tr className="bg-slate-50">
+                <td colSpan={5} className="px-3 pb-3">
+                  {rule.samples.map((sample) => (
+                    <div key={sample.url} className="break-all py-0.5">
+                      {sample.url} <span className="text-slate-400">← {sample.source ?? "sitemap"}</span>
+                    </div>
+                  ))}
+                  {rule.hits > rule.samples.length && (
+                    <div className="text-slate-400 italic py-0.5">and {(rule.hits - rule.samples.length).toLocaleString()} more</div>
+                  )}
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+      </ReportTable>
+    </div>
+  );
+}
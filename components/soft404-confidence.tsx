@@ -0,0 +1,18 @@
+import type { Soft404Signal, Soft404Verdict } from "@/lib/crawler/types";
+
+const SIGNAL_LABELS: Record<Soft404Signal, string> = {
+  "redirect-home": "redirects home",
+  "matches-404-page": "looks like the 404 page",
+  "same-title-as-404": "404 page title",
+  "not-found-text": '"nothing found" text',
+  "empty-listing": "empty listing",
+};
+
+// "87% · empty listing, 404 page title"
+export function Soft404Confidence({ verdict }: { verdict: Soft404Verdict }) {
+  return (
+    <span className="text-[10px] text-orange-600" title="Soft-404 confidence and the signals behind it">
+      <b>{Math.round(verdict.confidence * 100)}%</b> · {verdict.signals.map((signal) => SIGNAL_LABELS[signal]).join(", ")}
+    </span>
+  );
+}
@@ -0,0 +1,13 @@
+// Link status as a badge: OK, REDIRECT, PENDING, SOFT 404 or BROKEN (errors included)
+export function StatusBadge({ status }: { status: string }) {
+  if (status === "ok") return <span className="text-emerald-500 font-bold text-[10px]">OK</span>;
+  if (status === "redirect") return <span className="text-blue-500 font-bold text-[10px]">REDIRECT</span>;
+  if (status === "pending") return <span className="text-slate-400 font-bold text-[10px]">PENDING</span>;
+  if (status === "soft-404")
+    return (
+      <span className="bg-orange-100 text-orange-700 px-2 py-0.5 rounded text-[10px] font-bold border border-orange-200 block text-center">
+        SOFT 404
+      </span>
+    );
+  return <span className="bg-red-100 text-red-700 px-2 py-0.5 rounded text-[10px] font-bold border border-red-200 block text-center">BROKEN</span>;
+}
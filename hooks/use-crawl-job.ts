@@ -0,0 +1,142 @@
+"use client";
+
+import type { CrawlerState } from "@/lib/crawler/types";
+import type { CrawlJobOptions, JobAction, JobEventData, JobSnapshot, SnapshotInclude } from "@/lib/jobs/types";
+import axios from "axios";
+import { useCallback, useEffect, useState } from "react";
+
+type StartOptions = Partial<Omit<CrawlJobOptions, "startUrl">> & { url: string; state?: CrawlerState };
+
+// Same length as the job's own feed
+const FEED_SIZE = 50;
+
+// --- VIEWER HOOK FOR SERVER-SIDE CRAWL JOBS ---
+// Each page remembers its job id in localStorage, so reopening the tab re-attaches to the running crawl.
+// Counters and the feed follow the job's event stream; the full snapshot (broken links, site map...) is
+// refetched at most every pollMs, and only when something happened. Without EventSource it is plain polling.
+export function useCrawlJob({ storageKey, include = [], pollMs = 1000 }: { storageKey: string; include?: SnapshotInclude[]; pollMs?: number }) {
+  // Stable string so a new array each render doesn't restart polling
+  const includeParam = include.join(",");
+  // Re-attach after a reload
+  const [jobId, setJobId] = useState<string | null>(() => (typeof window === "undefined" ? null : window.localStorage.getItem(storageKey)));
+  const [job, setJob] = useState<JobSnapshot | null>(null);
+
+  // Follow job status
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    // Something changed since the last snapshot
+    let stale = true;
+
+    const load = async () => {
+      stale = false;
+      try {
+        const { data } = await axios.get<JobSnapshot>(`/api/jobs/${jobId}`, { params: includeParam ? { include: includeParam } : {} });
+        if (!cancelled) setJob(data);
+      } catch (err) {
+        // Job was deleted from the store -> forget it
+        if (axios.isAxiosError(err) && err.response?.status === 404 && !cancelled) {
+          window.localStorage.removeItem(storageKey);
+          setJobId(null);
+          setJob(null);
+        }
+      }
+    };
+
+    const events = typeof EventSource === "undefined" ? null : new EventSource(`/api/jobs/${jobId}/events`);
+    const onEvent = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as JobEventData;
+      stale = true;
+      if (event.type === "stats") {
+        setJob((prev) => prev && { ...prev, state: event.state, activeWorkers: event.activeWorkers, stats: event.stats });
+        // Nothing more will come; the browser would otherwise reconnect
+        if (event.state === "completed" || event.state === "cancelled") events?.close();
+      } else if (event.type === "page-finished") {
+        const { url, foundCount, status, depth, isLeaf } = event;
+        setJob((prev) => prev && { ...prev, feed: [{ url, foundCount, status, depth, isLeaf }, ...prev.feed].slice(0, FEED_SIZE) });
+      }
+    };
+    ["stats", "reset", "page-finished", "broken-link"].forEach((type) => events?.addEventListener(type, onEvent));
+
+    load();
+    // A closed stream (job finished, or gone) falls back to polling, which also notices deleted jobs
+    const timer = setInterval(() => {
+      if (stale || !events || events.readyState === EventSource.CLOSED) load();
+    }, pollMs);
+    return () => {
+      cancelled = true;
+      events?.close();
+      clearInterval(timer);
+    };
+  }, [jobId, includeParam, pollMs, storageKey]);
+
+  const start = useCallback(
+    async (options: StartOptions) => {
+      const { data } = await axios.post<JobSnapshot>("/api/jobs", options);
+      window.localStorage.setItem(storageKey, data.id);
+      setJob(data);
+      setJobId(data.id);
+      return data;
+    },
+    [storageKey]
+  );
+
+  const control = useCallback(
+    async (action: JobAction) => {
+      if (!jobId) return;
+      const { data } = await axios.patch<JobSnapshot>(`/api/jobs/${jobId}`, { action });
+      setJob((prev) => ({ ...data, siteMap: prev?.siteMap, results: prev?.results, skippedUrls: prev?.skippedUrls }));
+    },
+    [jobId]
+  );
+
+  const exportState = useCallback(async () => {
+    if (!jobId) return null;
+    const { data } = await axios.get<CrawlerState>(`/api/jobs/${jobId}`, { params: { include: "state" } });
+    return data;
+  }, [jobId]);
+
+  // Save /api/jobs/:id/export/:format as a file (plus any extra parts the export lists, e.g. split sitemaps)
+  const downloadExport = useCallback(
+    async (format: string, params: Record<string, string> = {}) => {
+      if (!jobId) return;
+      const url = `/api/jobs/${jobId}/export/${format}`;
+      const response = await axios.get<Blob>(url, { params, responseType: "blob" });
+      saveBlob(response.data, fileName(response.headers["content-disposition"], format));
+
+      const parts = String(response.headers["x-export-parts"] ?? "")
+        .split(",")
+        .filter(Boolean);
+      for (const part of parts) {
+        const partResponse = await axios.get<Blob>(url, { params: { ...params, part }, responseType: "blob" });
+        saveBlob(partResponse.data, part);
+      }
+    },
+    [jobId]
+  );
+
+  return {
+    job,
+    isRunning: job?.state === "running",
+    canResume: job?.state === "paused",
+    start,
+    pause: () => control("pause"),
+    resume: () => control("resume"),
+    cancel: () => control("cancel"),
+    exportState,
+    downloadExport,
+  };
+}
+
+const fileName = (disposition: string | undefined, fallback: string) => disposition?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+
+function saveBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
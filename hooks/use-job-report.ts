@@ -0,0 +1,40 @@
+"use client";
+
+import axios from "axios";
+import { useCallback, useEffect, useState } from "react";
+
+// The API's { error } message when there is one, else axios' own ("Network Error"...)
+export const requestError = (failure: unknown): string =>
+  (axios.isAxiosError(failure) && (failure.response?.data as { error?: string } | undefined)?.error) || (failure as Error).message;
+
+// --- ONE REPORT OF A CRAWL JOB ---
+// Fetches /api/jobs/:id/reports/:name when the job changes and on reload(). A refresh keeps showing the
+// last report until the new one arrives; a failed request sets `error` instead of loading forever.
+export function useJobReport<T>(jobId: string | null, name: string) {
+  // Tagged with what they answer, so a report of the previous job (or an error from before a reload) is never shown
+  const [loaded, setLoaded] = useState<{ key: string; report: T } | null>(null);
+  const [failed, setFailed] = useState<{ key: string; error: string } | null>(null);
+  // Bumped by reload() to refetch
+  const [version, setVersion] = useState(0);
+
+  const key = `${jobId}/${name}`;
+  useEffect(() => {
+    if (!jobId) return;
+    let cancelled = false;
+    axios
+      .get<T>(`/api/jobs/${jobId}/reports/${name}`)
+      .then(({ data }) => !cancelled && setLoaded({ key, report: data }))
+      .catch((failure) => !cancelled && setFailed({ key: `${key}#${version}`, error: requestError(failure) }));
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, name, key, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return {
+    report: jobId && loaded?.key === key ? loaded.report : null,
+    error: jobId && failed?.key === `${key}#${version}` ? failed.error : null,
+    reload,
+  };
+}
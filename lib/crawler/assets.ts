@@ -0,0 +1,171 @@
+import axios from "axios";
+import type { CheerioAPI } from "cheerio";
+import https from "https";
+import type { Readable } from "stream";
+import type { SiteProfile } from "@/lib/profiles";
+import { fetchErrorLabel, httpFetchError } from "./errors";
+import { externalLinkKey, isCheckableUrl } from "./external";
+import type { ScheduleFn } from "./host-scheduler";
+import { DEFAULT_RETRY_OPTIONS, requestWithRetry, type RetryOptions } from "./retry";
+import { classifyResponse } from "./status";
+import type { AssetCheckResult, AssetKind, PageAsset } from "./types";
+
+// --- ASSET AUDIT ---
+// Images, downloads, scripts and stylesheets a page depends on. On a coloring page the
+// image/PDF download IS the page, so a broken download is as bad as a broken link.
+
+const httpsAgent = new https.Agent({ keepAlive: true, rejectUnauthorized: false });
+
+const TIMEOUT_MS = 15000;
+
+// Parallel checks per page (new assets only; shared ones are checked once per crawl)
+export const ASSET_CHECK_CONCURRENCY = 4;
+
+// Substrings of an acceptable Content-Type. A missing header is not flagged.
+const EXPECTED_TYPES: Record<AssetKind, string[]> = {
+  image: ["image/"],
+  media: ["video/", "audio/", "image/"],
+  stylesheet: ["text/css"],
+  script: ["javascript", "ecmascript"],
+  download: ["image/", "application/pdf", "application/octet-stream"],
+};
+
+// "a.png 1x, b.png 2x" or "a.png 300w, b.png 600w"
+function parseSrcset(srcset: string | undefined): string[] {
+  if (!srcset) return [];
+  return srcset
+    .split(",")
+    .map((candidate) => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+}
+
+// URLs quoted inside inline handlers, e.g. onclick="printImage('/wp-content/uploads/page.pdf')"
+const QUOTED_URL = /["']((?:https?:)?\/[^"'\s]+)["']/g;
+
+// Every asset on the (noise-free) page, deduplicated by URL minus fragment.
+// A URL used both as an <img> and as the download is audited as the download.
+export function extractAssets($: CheerioAPI, pageUrl: string, profile: SiteProfile): PageAsset[] {
+  const pageKey = externalLinkKey(pageUrl);
+  const assets = new Map<string, PageAsset>();
+
+  const add = (raw: string | undefined, kind: AssetKind) => {
+    const value = raw?.trim();
+    if (!value || value.startsWith("#") || value.startsWith("data:") || value.startsWith("javascript:")) return;
+    try {
+      const url = new URL(value, pageUrl);
+      if (!isCheckableUrl(url)) return;
+      const key = externalLinkKey(url.href);
+      if (key === pageKey) return;
+      if (!assets.has(key) || kind === "download") assets.set(key, { url: key, kind });
+    } catch {
+      // Invalid URL, skip
+    }
+  };
+
+  $("img").each((_, element) => {
+    const img = $(element);
+    // data-src: lazy-loading plugins keep the real image there
+    [img.attr("src"), img.attr("data-src"), ...parseSrcset(img.attr("srcset"))].forEach((url) => add(url, "image"));
+  });
+  $("source").each((_, element) => {
+    const source = $(element);
+    const kind = source.parent().is("picture") ? "image" : "media";
+    [source.attr("src"), ...parseSrcset(source.attr("srcset"))].forEach((url) => add(url, kind));
+  });
+  $('link[rel~="stylesheet"]').each((_, element) => add($(element).attr("href"), "stylesheet"));
+  $("script[src]").each((_, element) => add($(element).attr("src"), "script"));
+
+  if (profile.downloadSelectors.length > 0) {
+    $(profile.downloadSelectors.join(", ")).each((_, element) => {
+      const target = $(element);
+      ["href", "data-href", "data-url", "data-src", "data-download"].forEach((attr) => add(target.attr(attr), "download"));
+      target.find("a[href]").each((_, link) => add($(link).attr("href"), "download"));
+      for (const match of (target.attr("onclick") ?? "").matchAll(QUOTED_URL)) add(match[1], "download");
+    });
+  }
+
+  return Array.from(assets.values());
+}
+
+// Size of the first body chunk (0 = empty body); the rest of the download is dropped
+function firstChunkSize(stream: Readable): Promise<number | null> {
+  return new Promise((resolve) => {
+    stream.once("data", (chunk: Buffer) => {
+      resolve(chunk.length);
+      stream.destroy();
+    });
+    stream.once("end", () => resolve(0));
+    stream.once("error", () => resolve(null));
+  });
+}
+
+// GET (HEAD can't prove a body exists). Broken = 4xx/5xx, an unexpected Content-Type
+// (e.g. an image URL that redirects to an HTML page) or a zero-byte body.
+export async function checkAsset(asset: PageAsset, retry: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<AssetCheckResult> {
+  const fetched = await requestWithRetry(
+    () =>
+      axios.get<Readable>(asset.url, {
+        maxRedirects: 5,
+        validateStatus: () => true,
+        timeout: TIMEOUT_MS,
+        httpsAgent,
+        responseType: "stream",
+        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36" },
+      }),
+    retry
+  );
+  if (fetched.error) {
+    return { ...asset, status: "error", label: fetchErrorLabel(fetched.error), statusCode: null, contentType: null, error: fetched.error };
+  }
+
+  const response = fetched.response;
+  const statusCode = response.status;
+  const contentType = response.headers["content-type"] ? String(response.headers["content-type"]) : null;
+
+  const error = httpFetchError(statusCode, fetched.attempts);
+  if (error) {
+    response.data.destroy();
+    const { status, label } = classifyResponse({ statusCode, originalUrl: asset.url, homeUrl: new URL(asset.url).origin });
+    return { ...asset, status, label, statusCode, contentType, error };
+  }
+
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+  if (mimeType && !EXPECTED_TYPES[asset.kind].some((expected) => mimeType.includes(expected))) {
+    response.data.destroy();
+    return { ...asset, status: "error", label: `Wrong Content-Type (${mimeType})`, statusCode, contentType };
+  }
+
+  const size = await firstChunkSize(response.data);
+  if (size === null) return { ...asset, status: "error", label: "Download Failed", statusCode, contentType };
+  if (size === 0) return { ...asset, status: "error", label: "Empty Response (0 bytes)", statusCode, contentType };
+
+  return { ...asset, status: "ok", label: "OK", statusCode, contentType };
+}
+
+// Checks a page's assets a few at a time; `schedule` puts each request through the crawl's per-host limits
+export async function checkAssets(
+  assets: PageAsset[],
+  {
+    retry = DEFAULT_RETRY_OPTIONS,
+    concurrency = ASSET_CHECK_CONCURRENCY,
+    schedule,
+  }: { retry?: RetryOptions; concurrency?: number; schedule?: ScheduleFn } = {}
+): Promise<AssetCheckResult[]> {
+  const results: AssetCheckResult[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < assets.length) {
+      const index = next++;
+      const asset = assets[index];
+      results[index] = schedule
+        ? await schedule(
+            asset.url,
+            () => checkAsset(asset, retry),
+            (result) => result.error
+          )
+        : await checkAsset(asset, retry);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, assets.length) }, worker));
+  return results;
+}
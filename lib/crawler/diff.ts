@@ -0,0 +1,95 @@
+import { isBrokenStatus } from "./status";
+import type { CrawlDiff, CrawlDiffItem, CrawlDiffSide, CrawlerState, LinkStatus, RedirectChangeItem } from "./types";
+
+// --- CRAWL DIFF ---
+// What changed between two runs of the audit, from their CrawlerStates (saved files or stored crawls).
+// Pages are matched by their normalized key, so both runs should use the same profile.
+
+interface DiffPage {
+  url: string;
+  status: LinkStatus;
+  foundOnPage: string;
+  redirectedTo: string | null;
+}
+
+export interface DiffInput {
+  label: string;
+  state: CrawlerState;
+}
+
+// Fetched pages by key. Broken links are in the report even when the state has no site map.
+function indexPages(state: CrawlerState): Map<string, DiffPage> {
+  const pages = new Map<string, DiffPage>();
+  Object.entries(state.siteMap ?? {}).forEach(([key, node]) => {
+    if (node.status === "pending") return;
+    pages.set(key, { url: node.url, status: node.status, foundOnPage: node.parent ?? "ROOT", redirectedTo: node.redirectedTo ?? null });
+  });
+
+  const keysByUrl = new Map(Array.from(pages, ([key, page]) => [page.url, key]));
+  state.brokenLinks.forEach((item) => {
+    const key = keysByUrl.get(item.brokenLink) ?? item.brokenLink;
+    pages.set(key, {
+      url: item.brokenLink,
+      status: item.status,
+      foundOnPage: item.foundOnPage,
+      redirectedTo: item.redirectChain?.finalUrl ?? item.redirectedTo ?? pages.get(key)?.redirectedTo ?? null,
+    });
+  });
+  return pages;
+}
+
+const describeSide = (label: string, state: CrawlerState, pages: Map<string, DiffPage>): CrawlDiffSide => ({
+  label,
+  pages: pages.size,
+  broken: Array.from(pages.values()).filter((page) => isBrokenStatus(page.status)).length,
+  hasSiteMap: !!state.siteMap && Object.keys(state.siteMap).length > 0,
+  partial: (state.queue ?? []).length > 0,
+});
+
+const byUrl = <T extends { url: string }>(items: T[]) => items.sort((a, b) => a.url.localeCompare(b.url));
+
+export function diffCrawls(base: DiffInput, head: DiffInput): CrawlDiff {
+  const before = indexPages(base.state);
+  const after = indexPages(head.state);
+  const diff: CrawlDiff = {
+    base: describeSide(base.label, base.state, before),
+    head: describeSide(head.label, head.state, after),
+    newlyBroken: [],
+    fixed: [],
+    newPages: [],
+    removedPages: [],
+    statusChanges: [],
+    redirectChanges: [],
+  };
+  const comparePages = diff.base.hasSiteMap && diff.head.hasSiteMap;
+  // A page one side never got to isn't new, removed, fixed or newly broken
+  const sharedOnly = diff.base.partial || diff.head.partial;
+
+  new Set([...before.keys(), ...after.keys()]).forEach((key) => {
+    const old = before.get(key);
+    const current = after.get(key);
+    if (sharedOnly && (!old || !current)) return;
+    const wasBroken = !!old && isBrokenStatus(old.status);
+    const isBroken = !!current && isBrokenStatus(current.status);
+    const item: CrawlDiffItem = {
+      url: (current ?? old)!.url,
+      before: old?.status ?? null,
+      after: current?.status ?? null,
+      foundOnPage: (current ?? old)!.foundOnPage,
+    };
+
+    if (isBroken && !wasBroken) diff.newlyBroken.push(item);
+    else if (wasBroken && !isBroken) diff.fixed.push(item);
+    else if (old && current && old.status !== current.status) diff.statusChanges.push(item);
+    else if (comparePages && !old && current) diff.newPages.push(item);
+    else if (comparePages && old && !current) diff.removedPages.push(item);
+
+    if (old && current && old.redirectedTo !== current.redirectedTo) {
+      diff.redirectChanges.push({ url: current.url, before: old.redirectedTo, after: current.redirectedTo, foundOnPage: current.foundOnPage });
+    }
+  });
+
+  (["newlyBroken", "fixed", "newPages", "removedPages", "statusChanges"] as const).forEach((list) => byUrl(diff[list]));
+  byUrl<RedirectChangeItem>(diff.redirectChanges);
+  return diff;
+}
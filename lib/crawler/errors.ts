@@ -0,0 +1,72 @@
+import axios from "axios";
+import type { FetchError, FetchErrorKind } from "./types";
+
+// --- FETCH ERROR TAXONOMY ---
+// One classification for every failed request, so a transient timeout doesn't look like a dead
+// domain in the reports. Node/axios error codes map to a kind; HTTP failures map by status class.
+
+const CODE_KINDS: Record<string, FetchErrorKind> = {
+  ENOTFOUND: "dns",
+  EAI_AGAIN: "dns",
+  ECONNREFUSED: "connection-refused",
+  ECONNRESET: "connection-reset",
+  EPIPE: "connection-reset",
+  ECONNABORTED: "timeout",
+  ETIMEDOUT: "timeout",
+  ESOCKETTIMEDOUT: "timeout",
+  ERR_FR_TOO_MANY_REDIRECTS: "too-many-redirects",
+  ERR_INVALID_URL: "invalid-url",
+  EPROTO: "tls",
+};
+
+// OpenSSL and Node TLS codes (CERT_HAS_EXPIRED, ERR_TLS_CERT_ALTNAME_INVALID, ERR_SSL_WRONG_VERSION_NUMBER...)
+const TLS_CODE = /^(ERR_TLS_|ERR_SSL_)|CERT|SELF_SIGNED|UNABLE_TO_VERIFY/;
+
+const KIND_LABELS: Record<FetchErrorKind, string> = {
+  dns: "DNS Failure",
+  "connection-refused": "Connection Refused",
+  "connection-reset": "Connection Reset",
+  timeout: "Timeout",
+  tls: "TLS Error",
+  "http-4xx": "HTTP 4xx",
+  "http-5xx": "HTTP 5xx",
+  "too-many-redirects": "Too Many Redirects",
+  "invalid-url": "Invalid URL",
+  unknown: "Network Error",
+};
+
+// An HTTP status that counts as a failure; null below 400
+export function httpFetchError(statusCode: number, attempts = 1): FetchError | null {
+  if (statusCode < 400) return null;
+  return { kind: statusCode >= 500 ? "http-5xx" : "http-4xx", code: String(statusCode), message: `HTTP ${statusCode}`, statusCode, attempts };
+}
+
+// Anything a request can throw: axios errors (with or without a response), Node system errors, bad URLs
+export function toFetchError(error: unknown, attempts = 1): FetchError {
+  if (axios.isAxiosError(error) && error.response) {
+    return (
+      httpFetchError(error.response.status, attempts) ?? {
+        kind: "unknown",
+        code: String(error.response.status),
+        message: error.message,
+        statusCode: error.response.status,
+        attempts,
+      }
+    );
+  }
+
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  const kind: FetchErrorKind =
+    (code && CODE_KINDS[code]) ||
+    (code && TLS_CODE.test(code) ? "tls" : null) ||
+    (/unsupported protocol|invalid url/i.test(message ?? "") ? "invalid-url" : null) ||
+    (/timeout/i.test(message ?? "") ? "timeout" : null) ||
+    "unknown";
+  return { kind, code: code || kind, message: message || KIND_LABELS[kind], statusCode: null, attempts };
+}
+
+// "Timeout (ECONNABORTED, 3 attempts)"
+export function fetchErrorLabel(error: FetchError): string {
+  const details = [error.code !== error.kind ? error.code : null, error.attempts > 1 ? `${error.attempts} attempts` : null].filter(Boolean);
+  return details.length > 0 ? `${KIND_LABELS[error.kind]} (${details.join(", ")})` : KIND_LABELS[error.kind];
+}
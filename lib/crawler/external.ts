@@ -0,0 +1,120 @@
+import axios from "axios";
+import https from "https";
+import { fetchErrorLabel, httpFetchError } from "./errors";
+import { DEFAULT_RETRY_OPTIONS, requestWithRetry, type RetryOptions } from "./retry";
+import { classifyResponse } from "./status";
+import type { ExternalCheckResult, FetchError } from "./types";
+
+// --- EXTERNAL (OUTBOUND) LINKS ---
+// Outbound links are checked, never crawled: one request per unique URL, spaced out per host
+// so a page with 40 YouTube embeds doesn't hammer YouTube.
+
+const httpsAgent = new https.Agent({ keepAlive: true, rejectUnauthorized: false });
+
+// Minimum gap between two requests to the same external host
+export const EXTERNAL_HOST_DELAY_MS = 1000;
+
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 10000;
+
+// Only plain web links are checkable (no mailto:, tel:, javascript:...)
+export function isCheckableUrl(url: URL): boolean {
+  return url.protocol === "http:" || url.protocol === "https:";
+}
+
+// Fragments never reach the server, so "#t=30" variants are the same request
+export function externalLinkKey(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    urlObj.hash = "";
+    return urlObj.href;
+  } catch {
+    return url;
+  }
+}
+
+async function request(
+  method: "head" | "get",
+  url: string,
+  retry: RetryOptions
+): Promise<{ status: number; finalUrl: string; attempts: number } | { error: FetchError }> {
+  const fetched = await requestWithRetry(
+    () =>
+      axios.request({
+        method,
+        url,
+        maxRedirects: MAX_REDIRECTS,
+        validateStatus: () => true,
+        timeout: TIMEOUT_MS,
+        httpsAgent,
+        // The body is never read
+        responseType: "stream",
+        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36" },
+      }),
+    retry
+  );
+  if (fetched.error) return { error: fetched.error };
+  fetched.response.data?.destroy?.();
+  const finalUrl = (fetched.response.request?.res?.responseUrl as string | undefined) || url;
+  return { status: fetched.response.status, finalUrl, attempts: fetched.attempts };
+}
+
+// HEAD first (never retried); many servers refuse HEAD (405, 403, even 404), so any failure is
+// retried as a GET, which gets the retries. Classified like /api/check: a redirect to the external
+// site's homepage is a soft-404.
+export async function checkExternalUrl(url: string, retry: RetryOptions = DEFAULT_RETRY_OPTIONS): Promise<ExternalCheckResult> {
+  let response = await request("head", url, { ...retry, retries: 0 });
+  if ("error" in response || response.status >= 400) {
+    response = await request("get", url, retry);
+  }
+  if ("error" in response) {
+    return { url, status: "error", label: fetchErrorLabel(response.error), statusCode: null, finalUrl: null, error: response.error };
+  }
+
+  const { status, label } = classifyResponse({
+    statusCode: response.status,
+    originalUrl: url,
+    targetUrl: response.finalUrl,
+    homeUrl: new URL(url).origin,
+  });
+  const error = httpFetchError(response.status, response.attempts);
+  return {
+    url,
+    status,
+    label,
+    statusCode: response.status,
+    finalUrl: response.finalUrl !== url ? response.finalUrl : null,
+    ...(error ? { error } : {}),
+  };
+}
+
+// Checks each unique URL once per checker (concurrent callers share the same request)
+// and keeps EXTERNAL_HOST_DELAY_MS between requests to the same host.
+export class ExternalLinkChecker {
+  private results = new Map<string, Promise<ExternalCheckResult>>();
+  // Per host: earliest time the next request may start
+  private nextRequestAt = new Map<string, number>();
+
+  constructor(
+    private retry = DEFAULT_RETRY_OPTIONS,
+    private hostDelayMs = EXTERNAL_HOST_DELAY_MS
+  ) {}
+
+  check(url: string): Promise<ExternalCheckResult> {
+    const key = externalLinkKey(url);
+    let result = this.results.get(key);
+    if (!result) {
+      result = this.waitForHost(key).then(() => checkExternalUrl(key, this.retry));
+      this.results.set(key, result);
+    }
+    return result;
+  }
+
+  private async waitForHost(url: string) {
+    const host = new URL(url).host;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+    this.nextRequestAt.set(host, slot + this.hostDelayMs);
+    if (slot > now) await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
@@ -0,0 +1,68 @@
+import type { QueueItem } from "./types";
+
+// --- CRAWL FRONTIER ---
+// Queue + registry + visited set. The registry holds every URL that is visited OR waiting
+// in the queue, so concurrent workers can't queue the same link twice.
+export class CrawlFrontier {
+  private queue: QueueItem[] = [];
+  // Finished pages
+  private visited = new Set<string>();
+  // Visited OR currently queued
+  private registry = new Set<string>();
+
+  constructor(
+    readonly canonicalize: (url: string) => string,
+    // "dfs" = new links jump to the front of the queue, "bfs" = back of the queue
+    private strategy: "dfs" | "bfs" = "bfs"
+  ) {}
+
+  // Rebuild from stored pages; `pending` rows become the queue
+  restore(pages: { url_key: string; status: string }[], queue: QueueItem[]) {
+    pages.forEach((page) => {
+      this.registry.add(page.url_key);
+      if (page.status !== "pending") this.visited.add(page.url_key);
+    });
+    this.queue = queue;
+  }
+
+  // Claim a URL for queueing. False if it was already seen.
+  claim(url: string): boolean {
+    const key = this.canonicalize(url);
+    if (this.registry.has(key)) return false;
+    this.registry.add(key);
+    return true;
+  }
+
+  enqueue(items: QueueItem[]) {
+    if (items.length === 0) return;
+    if (this.strategy === "dfs") this.queue.unshift(...items);
+    else this.queue.push(...items);
+  }
+
+  // Lazy cleanup on pop: skip duplicates that slipped into the queue
+  next(): QueueItem | undefined {
+    let item = this.queue.shift();
+    while (item && this.visited.has(this.canonicalize(item.url))) {
+      item = this.queue.shift();
+    }
+    return item;
+  }
+
+  markVisited(url: string) {
+    const key = this.canonicalize(url);
+    this.registry.add(key);
+    this.visited.add(key);
+  }
+
+  isVisited(url: string): boolean {
+    return this.visited.has(this.canonicalize(url));
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  get visitedCount(): number {
+    return this.visited.size;
+  }
+}
@@ -0,0 +1,185 @@
+import type { FetchError, HostRate } from "./types";
+
+// --- PER-HOST POLITENESS ---
+// Caps parallel requests per host and spaces out their starts. The gap adapts: 429/503s, timeouts
+// and latency well above the host's baseline back off (delay doubles, concurrency halves);
+// healthy responses slowly bring both back to the configured limits.
+
+export interface PolitenessOptions {
+  // Parallel requests to one host
+  maxConcurrency: number;
+  // Minimum gap between two request starts to one host (robots.txt Crawl-delay raises it)
+  minDelayMs: number;
+  // Ceiling for the adaptive gap
+  maxDelayMs: number;
+}
+
+export const DEFAULT_POLITENESS: PolitenessOptions = { maxConcurrency: 4, minDelayMs: 100, maxDelayMs: 30000 };
+
+// Job options -> PolitenessOptions (only what the job set overrides the defaults)
+export function politenessOptions({ hostConcurrency, hostDelayMs }: { hostConcurrency?: number; hostDelayMs?: number }): PolitenessOptions {
+  return {
+    ...DEFAULT_POLITENESS,
+    ...(hostConcurrency ? { maxConcurrency: Math.max(1, hostConcurrency) } : {}),
+    ...(hostDelayMs !== undefined ? { minDelayMs: Math.max(0, hostDelayMs) } : {}),
+  };
+}
+
+// Runs `task` in a host slot; `failure` picks the FetchError (if any) out of its result
+export type ScheduleFn = <T>(url: string, task: () => Promise<T>, failure: (result: T) => FetchError | undefined) => Promise<T>;
+
+const THROTTLE_CODES = [429, 503];
+// Latency EWMA this many times the host's best EWMA counts as "struggling"...
+const SLOW_FACTOR = 3;
+// ...unless it's still this fast
+const SLOW_FLOOR_MS = 1000;
+const LATENCY_ALPHA = 0.2;
+// Consecutive healthy responses before concurrency goes back up by one
+const RECOVERY_STREAK = 10;
+// Healthy responses shrink the gap by this factor
+const RECOVERY_FACTOR = 0.9;
+// Effective rate = requests started in this window
+const RATE_WINDOW_MS = 10000;
+// One slowdown per this long at most, so a burst of parallel 429s (or one slow stretch) backs off once
+const SLOWDOWN_COOLDOWN_MS = 2000;
+
+interface HostState {
+  host: string;
+  active: number;
+  concurrency: number;
+  delayMs: number;
+  // robots.txt Crawl-delay, in ms
+  floorMs: number;
+  nextStartAt: number;
+  waiters: (() => void)[];
+  latencyMs: number | null;
+  baselineMs: number | null;
+  healthyStreak: number;
+  starts: number[];
+  lastSlowdown: HostRate["lastSlowdown"];
+  lastSlowdownAt: number;
+}
+
+export class HostScheduler {
+  private hosts = new Map<string, HostState>();
+
+  constructor(private options: PolitenessOptions = DEFAULT_POLITENESS) {}
+
+  // Waits for a slot on the URL's host; call the returned function (with the failure, if any) when done
+  async acquire(url: string, crawlDelaySeconds: number | null = null): Promise<(error?: FetchError) => void> {
+    const state = this.hostState(new URL(url).host);
+    if (crawlDelaySeconds) {
+      state.floorMs = Math.max(state.floorMs, crawlDelaySeconds * 1000);
+      state.delayMs = Math.max(state.delayMs, state.floorMs);
+    }
+
+    while (state.active >= state.concurrency) await new Promise<void>((resolve) => state.waiters.push(resolve));
+    state.active++;
+
+    const now = Date.now();
+    const slot = Math.max(now, state.nextStartAt);
+    state.nextStartAt = slot + state.delayMs;
+    if (slot > now) await new Promise((resolve) => setTimeout(resolve, slot - now));
+
+    const startedAt = Date.now();
+    state.starts.push(startedAt);
+
+    let released = false;
+    return (error) => {
+      if (released) return;
+      released = true;
+      state.active--;
+      this.adapt(state, error, Date.now() - startedAt);
+      state.waiters.shift()?.();
+    };
+  }
+
+  schedule: ScheduleFn = async (url, task, failure) => {
+    const release = await this.acquire(url);
+    try {
+      const result = await task();
+      release(failure(result));
+      return result;
+    } catch (error) {
+      release();
+      throw error;
+    }
+  };
+
+  // Current effective rate per host, busiest first
+  rates(): HostRate[] {
+    const since = Date.now() - RATE_WINDOW_MS;
+    return Array.from(this.hosts.values(), (state) => {
+      state.starts = state.starts.filter((time) => time >= since);
+      return {
+        host: state.host,
+        requestsPerSecond: Math.round((state.starts.length / (RATE_WINDOW_MS / 1000)) * 10) / 10,
+        delayMs: Math.round(state.delayMs),
+        concurrency: state.concurrency,
+        active: state.active,
+        latencyMs: state.latencyMs === null ? null : Math.round(state.latencyMs),
+        throttled: state.delayMs > Math.max(this.options.minDelayMs, state.floorMs) || state.concurrency < this.options.maxConcurrency,
+        lastSlowdown: state.lastSlowdown,
+      };
+    }).sort((a, b) => b.requestsPerSecond - a.requestsPerSecond);
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        host,
+        active: 0,
+        concurrency: this.options.maxConcurrency,
+        delayMs: this.options.minDelayMs,
+        floorMs: 0,
+        nextStartAt: 0,
+        waiters: [],
+        latencyMs: null,
+        baselineMs: null,
+        healthyStreak: 0,
+        starts: [],
+        lastSlowdown: null,
+        lastSlowdownAt: 0,
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private adapt(state: HostState, error: FetchError | undefined, elapsedMs: number) {
+    state.latencyMs = state.latencyMs === null ? elapsedMs : state.latencyMs + LATENCY_ALPHA * (elapsedMs - state.latencyMs);
+    const slow = state.baselineMs !== null && state.latencyMs > Math.max(state.baselineMs * SLOW_FACTOR, SLOW_FLOOR_MS);
+    if (!slow) state.baselineMs = state.baselineMs === null ? state.latencyMs : Math.min(state.baselineMs, state.latencyMs);
+
+    const reason: HostRate["lastSlowdown"] =
+      error?.statusCode && THROTTLE_CODES.includes(error.statusCode)
+        ? (String(error.statusCode) as "429" | "503")
+        : error?.kind === "timeout"
+          ? "timeout"
+          : slow
+            ? "latency"
+            : null;
+
+    const floor = Math.max(this.options.minDelayMs, state.floorMs);
+    if (reason) {
+      state.healthyStreak = 0;
+      if (Date.now() - state.lastSlowdownAt < Math.max(SLOWDOWN_COOLDOWN_MS, state.delayMs)) return;
+      state.lastSlowdown = reason;
+      state.lastSlowdownAt = Date.now();
+      state.delayMs = Math.min(this.options.maxDelayMs, Math.max(state.delayMs * 2, floor, 500));
+      state.concurrency = Math.max(1, Math.floor(state.concurrency / 2));
+      return;
+    }
+
+    // Snaps back to the floor once close (the decay alone never quite gets there)
+    const recovered = state.delayMs * RECOVERY_FACTOR;
+    state.delayMs = recovered < floor + 10 ? floor : recovered;
+    if (++state.healthyStreak >= RECOVERY_STREAK && state.concurrency < this.options.maxConcurrency) {
+      state.concurrency++;
+      state.healthyStreak = 0;
+      // A raised limit can admit one more waiter right away
+      state.waiters.shift()?.();
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type * as cheerio from "cheerio";
+import { isBrokenStatus } from "./status";
+import type { HreflangAlternate, HreflangIssue, LanguageStats, LinkStatus } from "./types";
+
+// --- HREFLANG ---
+// <link rel="alternate" hreflang="..."> in the <head> names every translation of a page (WPML writes them).
+// A valid set lists the page itself, an x-default, and each translation lists the page back.
+
+// Language, optional script, optional region ("fr", "pt-BR", "zh-Hant-TW", "es-419"), or "x-default"
+const HREFLANG_PATTERN = /^(x-default|[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?)$/i;
+
+export const isValidHreflang = (code: string) => HREFLANG_PATTERN.test(code);
+
+// Read before noise removal: the tags live in <head>, not in the language switcher
+export function extractAlternates($: cheerio.CheerioAPI, pageUrl: string): HreflangAlternate[] {
+  const alternates = new Map<string, HreflangAlternate>();
+  $('link[rel~="alternate"][hreflang][href]').each((_, element) => {
+    const hreflang = ($(element).attr("hreflang") ?? "").trim();
+    const href = ($(element).attr("href") ?? "").trim();
+    if (!hreflang || !href) return;
+    try {
+      const url = new URL(href, pageUrl).href;
+      alternates.set(`${hreflang.toLowerCase()} ${url}`, { hreflang, url });
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+  return Array.from(alternates.values());
+}
+
+// A crawled page and its alternates, keyed with the crawl's canonicalizer
+export interface HreflangPage {
+  url: string;
+  key: string;
+  status: LinkStatus;
+  alternates: (HreflangAlternate & { key: string })[];
+}
+
+// Alternates that weren't crawled (other languages, past max pages) can't be checked for status or a return link
+export function validateHreflang(pages: HreflangPage[]): HreflangIssue[] {
+  const byKey = new Map(pages.map((page) => [page.key, page]));
+  const issues: HreflangIssue[] = [];
+  const issue = (page: HreflangPage, kind: HreflangIssue["kind"], alternate: HreflangPage["alternates"][number] | null, status?: LinkStatus) =>
+    issues.push({
+      page: page.url,
+      kind,
+      hreflang: alternate?.hreflang ?? null,
+      alternate: alternate?.url ?? null,
+      ...(status ? { status } : {}),
+    });
+
+  pages.forEach((page) => {
+    if (page.alternates.length === 0) return;
+    page.alternates.filter((alternate) => !isValidHreflang(alternate.hreflang)).forEach((alternate) => issue(page, "invalid-code", alternate));
+    if (!page.alternates.some((alternate) => alternate.key === page.key)) issue(page, "missing-self-reference", null);
+    if (!page.alternates.some((alternate) => alternate.hreflang.toLowerCase() === "x-default")) issue(page, "missing-x-default", null);
+
+    page.alternates
+      .filter((alternate) => alternate.key !== page.key)
+      .forEach((alternate) => {
+        const target = byKey.get(alternate.key);
+        if (!target || target.status === "pending") return;
+        if (isBrokenStatus(target.status)) issue(page, "broken-alternate", alternate, target.status);
+        else if (target.status === "redirect") issue(page, "redirected-alternate", alternate, target.status);
+        // x-default usually points at a language picker or the main site, which needn't list every page back
+        else if (alternate.hreflang.toLowerCase() !== "x-default" && !target.alternates.some((back) => back.key === page.key)) {
+          issue(page, "no-return-link", alternate);
+        }
+      });
+  });
+  return issues;
+}
+
+// --- PER-LANGUAGE COUNTS ---
+// A page's language: its own hreflang, else the hreflang another page lists it under (broken pages
+// have no <head>), else its language folder, else "default"
+export function languageStats(pages: HreflangPage[], languageFolders: string[]): LanguageStats[] {
+  const listedAs = new Map<string, string>();
+  const declared = new Set<string>();
+  pages.forEach((page) =>
+    page.alternates.forEach((alternate) => {
+      const code = alternate.hreflang.toLowerCase();
+      if (code === "x-default" || !isValidHreflang(code) || declared.has(alternate.key)) return;
+      // A page's own (first) declaration wins over what others call it
+      if (alternate.key === page.key) declared.add(alternate.key);
+      else if (listedAs.has(alternate.key)) return;
+      listedAs.set(alternate.key, code);
+    })
+  );
+  const folders = new Set(languageFolders.map((folder) => folder.toLowerCase()));
+  const languageOf = (page: HreflangPage) => {
+    const listed = listedAs.get(page.key);
+    if (listed) return listed;
+    const folder = new URL(page.url).pathname.split("/")[1]?.toLowerCase();
+    return folder && folders.has(folder) ? folder : "default";
+  };
+
+  const stats = new Map<string, LanguageStats>();
+  pages.forEach((page) => {
+    const language = languageOf(page);
+    const entry = stats.get(language) ?? { language, pages: 0, broken: 0 };
+    entry.pages++;
+    if (isBrokenStatus(page.status)) entry.broken++;
+    stats.set(language, entry);
+  });
+  return Array.from(stats.values()).sort((a, b) => b.pages - a.pages);
+}
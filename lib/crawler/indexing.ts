@@ -0,0 +1,83 @@
+import type * as cheerio from "cheerio";
+import { isBrokenStatus } from "./status";
+import type { IndexingIssue, LinkStatus, PageIndexing } from "./types";
+
+// --- CANONICAL & META ROBOTS ---
+// <link rel="canonical">, <meta name="robots"> and the X-Robots-Tag header. Directives for every crawler
+// and for Googlebot count; those addressed to other crawlers ("bingbot: noindex") are ignored.
+
+const SEARCH_AGENT = "googlebot";
+// Directives that take a value, so "max-snippet: 50" isn't read as a user agent
+const VALUE_DIRECTIVES = ["max-snippet", "max-image-preview", "max-video-preview", "unavailable_after"];
+
+// "noindex, nofollow" or "googlebot: noindex, nofollow" (a user agent applies to the directives after it)
+export function parseRobotsDirectives(value: string, agent: string | null = null): string[] {
+  const directives: string[] = [];
+  value.split(",").forEach((part) => {
+    let directive = part.trim().toLowerCase();
+    const prefixed = /^([\w-]+)\s*:\s*(.+)$/.exec(directive);
+    if (prefixed && !VALUE_DIRECTIVES.includes(prefixed[1])) [, agent, directive] = prefixed;
+    if (directive && (agent === null || agent === SEARCH_AGENT)) directives.push(directive);
+  });
+  return directives;
+}
+
+export const isNoindex = (robots: string[]) => robots.includes("noindex") || robots.includes("none");
+
+// Read before noise removal, like the hreflang alternates
+export function extractIndexing($: cheerio.CheerioAPI, pageUrl: string, xRobotsTag: string | null): PageIndexing {
+  let canonical: string | null = null;
+  const href = $('link[rel~="canonical"][href]').first().attr("href")?.trim();
+  if (href) {
+    try {
+      canonical = new URL(href, pageUrl).href;
+    } catch {
+      // Invalid URL, ignored
+    }
+  }
+
+  const robots = xRobotsTag ? parseRobotsDirectives(xRobotsTag) : [];
+  $("meta[name][content]").each((_, element) => {
+    const name = ($(element).attr("name") ?? "").trim().toLowerCase();
+    if (name === "robots" || name === SEARCH_AGENT)
+      robots.push(...parseRobotsDirectives($(element).attr("content") ?? "", name === "robots" ? null : name));
+  });
+  return { canonical, robots: Array.from(new Set(robots)) };
+}
+
+// A crawled page with its canonical (keyed with the crawl's canonicalizer) and where it is listed
+export interface IndexingPage {
+  url: string;
+  key: string;
+  status: LinkStatus;
+  canonical: string | null;
+  canonicalKey: string | null;
+  robots: string[];
+  // Linked from a menu (nav, [role=navigation], header)
+  inNavigation: boolean;
+  inSitemap: boolean;
+}
+
+export const isDuplicate = (page: Pick<IndexingPage, "key" | "canonicalKey">) => page.canonicalKey !== null && page.canonicalKey !== page.key;
+
+// Canonicals that weren't crawled (other hosts, excluded by a rule, past max pages) can't be checked
+export function analyzeIndexing(pages: IndexingPage[]): IndexingIssue[] {
+  const byKey = new Map(pages.map((page) => [page.key, page]));
+  const issues: IndexingIssue[] = [];
+
+  pages.forEach((page) => {
+    const target = isDuplicate(page) ? byKey.get(page.canonicalKey!) : undefined;
+    if (target && target.status !== "pending") {
+      const issue = { page: page.url, canonical: page.canonical, status: target.status };
+      if (isBrokenStatus(target.status)) issues.push({ ...issue, kind: "broken-canonical" });
+      else if (target.status === "redirect") issues.push({ ...issue, kind: "redirected-canonical" });
+      // Search engines may not follow the second hop
+      else if (isDuplicate(target)) issues.push({ page: page.url, canonical: page.canonical, kind: "canonical-chain", chainsTo: target.canonical! });
+    }
+
+    if (!isNoindex(page.robots)) return;
+    if (page.inNavigation) issues.push({ page: page.url, canonical: page.canonical, kind: "noindex-in-navigation" });
+    if (page.inSitemap) issues.push({ page: page.url, canonical: page.canonical, kind: "noindex-in-sitemap" });
+  });
+  return issues;
+}
@@ -0,0 +1,83 @@
+import type * as cheerio from "cheerio";
+import type { LinkContext } from "./types";
+
+// --- LINK CONTEXT ---
+// Where a link sits on its page, so editors can find it without hunting: anchor text,
+// rel tokens, the closest heading above it and a CSS path.
+
+const MAX_TEXT_LENGTH = 200;
+const HEADINGS = "h1, h2, h3, h4, h5, h6";
+
+export interface RawLink extends Omit<LinkContext, "url" | "occurrences"> {
+  // Attribute value as written (not resolved)
+  href: string;
+}
+
+const clip = (text: string) => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_TEXT_LENGTH ? `${clean.slice(0, MAX_TEXT_LENGTH - 1)}…` : clean;
+};
+
+// CSS.escape (CSSOM), which Node lacks: ids and classes like "2col" or "w-1/2" make valid selectors
+function cssEscape(value: string): string {
+  let escaped = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    const code = value.charCodeAt(i);
+    if (code === 0) escaped += "\uFFFD";
+    else if (code <= 0x1f || code === 0x7f || (/\d/.test(char) && (i === 0 || (i === 1 && value[0] === "-")))) escaped += `\\${code.toString(16)} `;
+    else if (i === 0 && char === "-" && value.length === 1) escaped += "\\-";
+    else if (code >= 0x80 || /[\w-]/.test(char)) escaped += char;
+    else escaped += `\\${char}`;
+  }
+  return escaped;
+}
+
+// Every <a href> matched by `selector`, in document order. `heading` is the nearest heading
+// before the link in the document, so both "<h2> then <ul> of links" and "<section><h3>..." work.
+export function extractRawLinks($: cheerio.CheerioAPI, selector = "a[href]"): RawLink[] {
+  const inScope = new Set($(selector).filter("a[href]").toArray());
+  const links: RawLink[] = [];
+  let heading: string | null = null;
+
+  $(`${HEADINGS}, a[href]`).each((_, element) => {
+    const node = $(element);
+    if (node.is(HEADINGS)) {
+      heading = clip(node.text()) || heading;
+      return;
+    }
+    if (!inScope.has(element)) return;
+
+    const href = node.attr("href")?.trim();
+    if (!href) return;
+
+    // Image links have no text; fall back to the image's alt, then title/aria-label
+    const image = node.find("img[alt]").first();
+    const anchorText =
+      clip(node.text()) ||
+      (image.length ? `[img] ${clip(image.attr("alt") ?? "")}` : "") ||
+      clip(node.attr("aria-label") ?? node.attr("title") ?? "");
+
+    const rel = (node.attr("rel") ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+
+    // tag#id stops the path; otherwise tag.firstClass:nth-of-type(n) up to <body>
+    const path: string[] = [];
+    let current = node;
+    while (current.length && !current.is("body, html")) {
+      const tag = (current.prop("tagName") ?? "").toLowerCase();
+      const id = current.attr("id");
+      if (id) {
+        path.unshift(`${tag}#${cssEscape(id)}`);
+        break;
+      }
+      const className = (current.attr("class") ?? "").trim().split(/\s+/)[0];
+      const sameTag = current.siblings(tag).length;
+      path.unshift(`${tag}${className ? `.${cssEscape(className)}` : ""}${sameTag ? `:nth-of-type(${current.prevAll(tag).length + 1})` : ""}`);
+      current = current.parent();
+    }
+
+    links.push({ href, anchorText, rel, heading, selector: path.join(" > ") });
+  });
+
+  return links;
+}
@@ -0,0 +1,336 @@
+import axios, { type AxiosResponseHeaders, type RawAxiosResponseHeaders } from "axios";
+import * as cheerio from "cheerio";
+import https from "https";
+import { checkUrlRules, getNormalizationRules, getUrlRules, isAllowedHost, type SiteProfile } from "@/lib/profiles";
+import { isLeafPage, removeNoise } from "@/lib/profiles/dom";
+import { extractAssets } from "./assets";
+import { toFetchError } from "./errors";
+import { externalLinkKey, isCheckableUrl } from "./external";
+import { extractAlternates } from "./hreflang";
+import { extractIndexing, parseRobotsDirectives } from "./indexing";
+import { extractRawLinks } from "./link-context";
+import { followRedirects, type HopGate } from "./redirects";
+import { DEFAULT_RETRY_OPTIONS, requestWithRetry, type RetryOptions } from "./retry";
+import { detectSoft404, REDIRECT_HOME_VERDICT, SOFT_404_THRESHOLD } from "./soft404";
+import { classifyResponse, isRedirectCode } from "./status";
+import type { FetchError, LinkContext, PageCrawlResult, PageValidators, RuleExcludedLink } from "./types";
+import { canonicalizeUrl, cleanLinkUrl } from "./url";
+import { evaluateContentType } from "./url-rules";
+
+const httpsAgent = new https.Agent({
+  keepAlive: true,
+  rejectUnauthorized: false,
+});
+
+const TIMEOUT_MS = 12000;
+
+// Menus whose links count as site navigation (the noise selectors usually remove them before link extraction)
+const NAVIGATION_SELECTOR = 'nav a[href], [role="navigation"] a[href], header a[href]';
+
+// --- FETCH + PARSE A SINGLE PAGE ---
+// Shared by /api/crawl and the server-side job engine. All site rules come from the profile.
+// `collectExternal` also returns the page's outbound links (other hosts) in `externalLinks`,
+// `collectAssets` its images, scripts, stylesheets and downloads in `assets`.
+// The GET (and every redirect hop) is retried per `retry`; failures carry a FetchError.
+// `validators` (from an earlier crawl) make the GET conditional: a 304 comes back as `notModified`
+// with no links, and the caller reuses what it stored last time.
+// Links are filtered by the profile's URL rules (reported in `ruleExcludedLinks`); a content-type rule
+// excluding the page itself sets `excludedByRule`. hreflang alternates come back unfiltered in `alternates`.
+// OK pages carry their canonical and robots directives in `indexing`, HTML pages their menu links in `navigationLinks`.
+// A redirect is followed to its end here (each hop through `redirectGate`, if given); only the final URL is queued.
+export async function crawlPage(
+  url: string,
+  profile: SiteProfile,
+  {
+    collectExternal = false,
+    collectAssets = false,
+    retry = DEFAULT_RETRY_OPTIONS,
+    validators,
+    redirectGate,
+  }: { collectExternal?: boolean; collectAssets?: boolean; retry?: RetryOptions; validators?: PageValidators; redirectGate?: HopGate } = {}
+): Promise<PageCrawlResult> {
+  const rules = getNormalizationRules(profile);
+
+  try {
+    // 1. HEAD REQUEST (Optimization; skipped for revalidation, the earlier crawl already parsed it as HTML)
+    if (!validators) {
+      try {
+        const headResponse = await axios.head(url, {
+          maxRedirects: 0,
+          timeout: 4000,
+          httpsAgent,
+          validateStatus: (status) => status < 400,
+          headers: { "User-Agent": "Mozilla/5.0 (compatible; ColoringScanner/2.0)" },
+        });
+
+        // Checked first: a redirect has no useful Content-Type
+        if (isRedirectCode(headResponse.status)) {
+          return handleRedirect(url, headResponse.status, headResponse.headers["location"], profile, { retry, gate: redirectGate });
+        }
+
+        const contentType = headResponse.headers["content-type"] || "";
+        const excluded = excludedByContentType(url, contentType, profile);
+        if (excluded) return excluded;
+
+        // Optimization: Skip non-html without downloading body
+        if (!contentType.includes("text/html")) {
+          return {
+            url,
+            status: "ok",
+            redirectLocation: null,
+            links: [],
+            isLeaf: true,
+            ...responseMeta(headResponse.headers),
+            ...headerIndexing(headResponse.headers),
+          };
+        }
+      } catch {
+        // Ignore HEAD errors and try GET
+      }
+    }
+
+    // 2. GET REQUEST (timeouts, 429 and 5xx are retried)
+    const fetched = await requestWithRetry(
+      () =>
+        axios.get<string>(url, {
+          maxRedirects: 0,
+          validateStatus: (status) => status < 400,
+          timeout: TIMEOUT_MS,
+          httpsAgent,
+          responseType: "text", // Get raw text
+          headers: {
+            "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36",
+            ...conditionalHeaders(validators),
+          },
+        }),
+      retry
+    );
+    if (fetched.error) return failedResult(url, fetched.error, profile);
+    const response = fetched.response;
+
+    // Unchanged since the earlier crawl. A 304 may omit the validators; keep the old ones then.
+    if (response.status === 304) {
+      const meta = responseMeta(response.headers);
+      return {
+        url,
+        status: "ok",
+        redirectLocation: null,
+        links: [],
+        isLeaf: false,
+        notModified: true,
+        contentType: null,
+        etag: meta.etag ?? validators?.etag ?? null,
+        lastModified: meta.lastModified ?? validators?.lastModified ?? null,
+      };
+    }
+
+    if (isRedirectCode(response.status)) {
+      return handleRedirect(url, response.status, response.headers["location"], profile, { retry, gate: redirectGate });
+    }
+
+    const meta = responseMeta(response.headers);
+    const excluded = excludedByContentType(url, meta.contentType, profile);
+    if (excluded) return excluded;
+
+    // 3. PARSE
+    const $ = cheerio.load(response.data);
+    // Before noise removal, which takes the menus and may take the <head> links with the language switcher
+    const alternates = extractAlternates($, url);
+    const navigationLinks = extractNavigationLinks($, url, profile);
+    const signals = {
+      indexing: extractIndexing($, url, response.headers["x-robots-tag"] ? String(response.headers["x-robots-tag"]) : null),
+      ...(navigationLinks.length > 0 ? { navigationLinks } : {}),
+    };
+
+    // DOM Cleaning (Remove noise)
+    removeNoise($, profile);
+
+    // A 200 that is really a "Nothing found" page is a dead end
+    const soft404 = await detectSoft404($, url, profile);
+    if (soft404.confidence >= SOFT_404_THRESHOLD) {
+      return { url, status: "soft-404", redirectLocation: null, soft404, links: [], isLeaf: true, ...meta, ...signals };
+    }
+
+    // Alternates, outbound links and assets are reported even on leaf pages (links and assets are checked, not crawled).
+    // Links and assets are taken after noise removal, so ad-network images and widgets aren't audited.
+    const extras = {
+      ...(alternates.length > 0 ? { alternates } : {}),
+      ...(collectExternal ? { externalLinks: extractExternalLinks($, url, profile) } : {}),
+      ...(collectAssets ? { assets: extractAssets($, url, profile) } : {}),
+    };
+
+    // 4. LEAF NODE DETECTION
+    // Checked after noise removal so "related" widgets don't count
+    if (isLeafPage($, profile)) {
+      return { url, status: "ok", redirectLocation: null, links: [], isLeaf: true, ...meta, ...signals, ...extras };
+    }
+
+    // 5. LINK EXTRACTION (deduplicated by canonical URL, repeats counted)
+    const extractedLinks = new Map<string, LinkContext>();
+    const ruleExcludedLinks = new Map<string, RuleExcludedLink>();
+    const selfKey = canonicalizeUrl(url, rules);
+
+    extractRawLinks($).forEach(({ href, ...context }) => {
+      try {
+        // AUTOMATIC RESOLUTION: Handles relative links
+        const absoluteUrl = new URL(href, url);
+
+        if (!isAllowedHost(profile, absoluteUrl.hostname)) return;
+        // In-page anchors
+        if (absoluteUrl.hash) return;
+
+        // Language folders, excluded paths, junk query strings... (the profile's URL rules)
+        const verdict = checkUrlRules(profile, absoluteUrl);
+        if (!verdict.allowed) {
+          ruleExcludedLinks.set(absoluteUrl.href, { url: absoluteUrl.href, rule: verdict.rule! });
+          return;
+        }
+
+        const key = canonicalizeUrl(absoluteUrl.href, rules);
+        if (key === selfKey) return; // Self link
+
+        const seen = extractedLinks.get(key);
+        if (seen) seen.occurrences++;
+        else extractedLinks.set(key, { url: cleanLinkUrl(absoluteUrl, rules), ...context, occurrences: 1 });
+      } catch {
+        // Invalid URL, skip
+      }
+    });
+
+    return {
+      url,
+      status: "ok",
+      redirectLocation: null,
+      links: Array.from(extractedLinks.values(), (link) => link.url),
+      linkContexts: Array.from(extractedLinks.values()),
+      ...(ruleExcludedLinks.size > 0 ? { ruleExcludedLinks: Array.from(ruleExcludedLinks.values()) } : {}),
+      isLeaf: false,
+      ...meta,
+      ...signals,
+      ...extras,
+    };
+  } catch (error) {
+    return failedResult(url, toFetchError(error), profile);
+  }
+}
+
+// An OK page whose Content-Type a rule excludes
+function excludedByContentType(url: string, contentType: string | null | undefined, profile: SiteProfile): PageCrawlResult | null {
+  const verdict = evaluateContentType(getUrlRules(profile), contentType);
+  if (verdict.allowed) return null;
+  return { url, status: "ok", redirectLocation: null, links: [], isLeaf: true, contentType, excludedByRule: verdict.rule! };
+}
+
+// 404/410 are "broken", every other failure "error"
+function failedResult(url: string, error: FetchError, profile: SiteProfile): PageCrawlResult {
+  const status = error.statusCode ? classifyResponse({ statusCode: error.statusCode, originalUrl: url, homeUrl: profile.startUrl }).status : "error";
+  return { url, status, redirectLocation: null, error, links: [], isLeaf: true };
+}
+
+// Links to hosts outside the profile, deduplicated by URL minus fragment
+function extractExternalLinks($: cheerio.CheerioAPI, url: string, profile: SiteProfile): string[] {
+  const externalLinks = new Set<string>();
+  $("a[href]").each((_, element) => {
+    const href = $(element).attr("href")?.trim();
+    if (!href) return;
+
+    try {
+      const absoluteUrl = new URL(href, url);
+      if (!isCheckableUrl(absoluteUrl) || isAllowedHost(profile, absoluteUrl.hostname)) return;
+
+      externalLinks.add(externalLinkKey(absoluteUrl.href));
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+  return Array.from(externalLinks);
+}
+
+// Internal links inside menus, deduplicated by canonical URL
+function extractNavigationLinks($: cheerio.CheerioAPI, url: string, profile: SiteProfile): string[] {
+  const rules = getNormalizationRules(profile);
+  const navigationLinks = new Map<string, string>();
+  $(NAVIGATION_SELECTOR).each((_, element) => {
+    const href = $(element).attr("href")?.trim();
+    if (!href) return;
+
+    try {
+      const absoluteUrl = new URL(href, url);
+      if (!isAllowedHost(profile, absoluteUrl.hostname) || absoluteUrl.hash) return;
+
+      const key = canonicalizeUrl(absoluteUrl.href, rules);
+      if (!navigationLinks.has(key)) navigationLinks.set(key, cleanLinkUrl(absoluteUrl, rules));
+    } catch {
+      // Invalid URL, skip
+    }
+  });
+  return Array.from(navigationLinks.values());
+}
+
+// Files other than HTML can only be marked noindex with the X-Robots-Tag header
+function headerIndexing(headers: RawAxiosResponseHeaders | AxiosResponseHeaders): Pick<PageCrawlResult, "indexing"> {
+  const header = headers["x-robots-tag"];
+  return header ? { indexing: { canonical: null, robots: parseRobotsDirectives(String(header)) } } : {};
+}
+
+// Content-Type, Last-Modified (as an ISO date) and ETag for sitemaps, reports and revalidation
+function responseMeta(headers: RawAxiosResponseHeaders | AxiosResponseHeaders): Pick<PageCrawlResult, "contentType" | "lastModified" | "etag"> {
+  const lastModified = headers["last-modified"] ? new Date(String(headers["last-modified"])) : null;
+  return {
+    contentType: headers["content-type"] ? String(headers["content-type"]) : null,
+    lastModified: lastModified && !isNaN(lastModified.getTime()) ? lastModified.toISOString() : null,
+    etag: headers["etag"] ? String(headers["etag"]) : null,
+  };
+}
+
+// If-None-Match wins over If-Modified-Since on the server side; both are sent when known
+function conditionalHeaders(validators: PageValidators | undefined): Record<string, string> {
+  if (!validators) return {};
+  return {
+    ...(validators.etag ? { "If-None-Match": validators.etag } : {}),
+    ...(validators.lastModified ? { "If-Modified-Since": new Date(validators.lastModified).toUTCString() } : {}),
+  };
+}
+
+// Records the whole chain and hands the crawl its end, so the hops in between aren't queued (and followed) again
+async function handleRedirect(
+  originalUrl: string,
+  statusCode: number,
+  locationHeader: string | undefined,
+  profile: SiteProfile,
+  { retry, gate }: { retry: RetryOptions; gate?: HopGate }
+): Promise<PageCrawlResult> {
+  const homeUrl = profile.startUrl;
+  try {
+    const location = locationHeader ? new URL(locationHeader, originalUrl).href : null;
+    if (!location) {
+      const { status } = classifyResponse({ statusCode, originalUrl, targetUrl: null, homeUrl });
+      return { url: originalUrl, status, redirectLocation: null, links: [], isLeaf: true };
+    }
+
+    const redirectChain = await followRedirects(originalUrl, { firstHop: { url: originalUrl, statusCode, location }, retry, gate });
+    // A loop never reaches a page; otherwise judge by where the chain ends (A -> B -> home is still a soft-404)
+    const status = redirectChain.loop ? "broken" : classifyResponse({ statusCode, originalUrl, targetUrl: redirectChain.finalUrl, homeUrl }).status;
+
+    // Keep crawling from where a real redirect ends (a blocked end is reported by the crawl's robots check);
+    // soft-404s, loops, broken redirects and chains that never got an answer are dead ends
+    if (status === "redirect") {
+      const target = new URL(redirectChain.finalUrl);
+      const verdict = isAllowedHost(profile, target.hostname) ? checkUrlRules(profile, target) : null;
+      const reachedEnd = !redirectChain.truncated && !redirectChain.error;
+      return {
+        url: originalUrl,
+        status,
+        redirectLocation: location,
+        redirectChain,
+        links: reachedEnd && verdict?.allowed ? [cleanLinkUrl(target, getNormalizationRules(profile))] : [],
+        ...(reachedEnd && verdict && !verdict.allowed ? { ruleExcludedLinks: [{ url: target.href, rule: verdict.rule! }] } : {}),
+        isLeaf: false,
+      };
+    }
+    const soft404 = status === "soft-404" ? { soft404: REDIRECT_HOME_VERDICT } : {};
+    return { url: originalUrl, status, redirectLocation: location, redirectChain, ...soft404, links: [], isLeaf: true };
+  } catch (error) {
+    return { url: originalUrl, status: "error", redirectLocation: null, error: toFetchError(error), links: [], isLeaf: true };
+  }
+}
@@ -0,0 +1,97 @@
+import axios from "axios";
+import https from "https";
+import { httpFetchError, toFetchError } from "./errors";
+import { DEFAULT_RETRY_OPTIONS, requestWithRetry, type RetryOptions } from "./retry";
+import { isRedirectCode } from "./status";
+import type { FetchError, RedirectChain, RedirectHop, RedirectIssue } from "./types";
+
+// --- REDIRECT CHAINS ---
+// Follows redirects one hop at a time (maxRedirects: 0) so every status code and Location is kept.
+
+const httpsAgent = new https.Agent({ keepAlive: true, rejectUnauthorized: false });
+
+// Give up following after this many hops
+export const MAX_FOLLOWED_HOPS = 10;
+
+// Chains with more hops than this are reported (each hop costs crawl budget and link equity)
+export const DEFAULT_REDIRECT_HOP_LIMIT = 3;
+
+const TEMPORARY_CODES = [302, 307];
+
+// Lets a crawl vet each hop before it is requested (robots.txt, then a host scheduler slot). `blocked` or an
+// `error` (robots.txt unreadable) stop the chain there; `release` is called with the hop's failure, if any, once it answered.
+export type HopGate = (url: string) => Promise<{ release: (error?: FetchError) => void } | { blocked: true } | { error: FetchError }>;
+
+// One request (retried per `retry`); only the status line and headers matter, so the body stream is dropped
+async function requestHop(url: string, retry: RetryOptions): Promise<{ status: number; location: string | null } | { error: FetchError }> {
+  const fetched = await requestWithRetry(
+    () =>
+      axios.get(url, {
+        maxRedirects: 0,
+        validateStatus: () => true,
+        timeout: 10000,
+        httpsAgent,
+        responseType: "stream",
+        headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36" },
+      }),
+    retry
+  );
+  if (fetched.error) return { error: fetched.error };
+  fetched.response.data.destroy();
+  return { status: fetched.response.status, location: fetched.response.headers["location"] ?? null };
+}
+
+// `firstHop` skips the first request when the caller already saw the redirect
+export async function followRedirects(
+  url: string,
+  {
+    firstHop,
+    maxHops = MAX_FOLLOWED_HOPS,
+    retry = DEFAULT_RETRY_OPTIONS,
+    gate,
+  }: { firstHop?: RedirectHop; maxHops?: number; retry?: RetryOptions; gate?: HopGate } = {}
+): Promise<RedirectChain> {
+  const hops: RedirectHop[] = [];
+  const seen = new Set<string>();
+  let current = url;
+
+  while (true) {
+    seen.add(current);
+
+    let response: { status: number; location: string | null };
+    if (firstHop && hops.length === 0) {
+      response = { status: firstHop.statusCode, location: firstHop.location };
+    } else {
+      const pass = gate ? await gate(current) : { release: () => {} };
+      if ("blocked" in pass) return { hops, finalUrl: current, finalStatus: null, loop: false, truncated: false, blocked: true };
+      if ("error" in pass) return { hops, finalUrl: current, finalStatus: null, loop: false, truncated: false, error: pass.error };
+      const hop = await requestHop(current, retry);
+      pass.release("error" in hop ? hop.error : (httpFetchError(hop.status) ?? undefined));
+      if ("error" in hop) return { hops, finalUrl: current, finalStatus: null, loop: false, truncated: false, error: hop.error };
+      response = hop;
+    }
+
+    if (!isRedirectCode(response.status) || !response.location) {
+      return { hops, finalUrl: current, finalStatus: response.status, loop: false, truncated: false };
+    }
+
+    const location = new URL(response.location, current).href;
+    hops.push({ url: current, statusCode: response.status, location });
+
+    if (seen.has(location)) return { hops, finalUrl: location, finalStatus: null, loop: true, truncated: false };
+    if (hops.length >= maxHops) {
+      const error = toFetchError({ code: "ERR_FR_TOO_MANY_REDIRECTS", message: `Stopped after ${maxHops} redirects` });
+      return { hops, finalUrl: location, finalStatus: null, loop: false, truncated: true, error };
+    }
+    current = location;
+  }
+}
+
+export function analyzeRedirectChain(chain: RedirectChain, hopLimit = DEFAULT_REDIRECT_HOP_LIMIT): RedirectIssue[] {
+  const issues: RedirectIssue[] = [];
+  if (chain.loop) issues.push("loop");
+  if (chain.hops.length > hopLimit || chain.truncated) issues.push("too-many-hops");
+  if (chain.hops.some((hop) => TEMPORARY_CODES.includes(hop.statusCode))) issues.push("temporary");
+  if (!chain.loop && !chain.blocked && (chain.finalStatus === null || chain.finalStatus >= 400)) issues.push("broken-target");
+  return issues;
+}
@@ -0,0 +1,78 @@
+import type { AxiosResponse } from "axios";
+import { httpFetchError, toFetchError } from "./errors";
+import type { FetchError } from "./types";
+
+// --- RETRIES ---
+// Timeouts, 429 and 5xx are usually transient: retry them with exponential backoff and jitter,
+// waiting as long as the server's Retry-After asks (up to maxDelayMs). Everything else fails fast.
+
+export interface RetryOptions {
+  // Extra attempts after the first request (0 = no retries)
+  retries: number;
+  // First backoff; doubles on every retry
+  baseDelayMs: number;
+  // Cap for both the backoff and Retry-After
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 30000 };
+
+export const isRetryableStatus = (statusCode: number) => statusCode === 429 || statusCode >= 500;
+
+const isRetryable = (error: FetchError) => error.kind === "timeout" || (error.statusCode !== null && isRetryableStatus(error.statusCode));
+
+// Job/route options -> RetryOptions (only what the caller set overrides the defaults)
+export function retryOptions({ retries, retryBaseDelayMs }: { retries?: number; retryBaseDelayMs?: number }): RetryOptions {
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...(retries !== undefined ? { retries: Math.max(0, retries) } : {}),
+    ...(retryBaseDelayMs !== undefined ? { baseDelayMs: Math.max(0, retryBaseDelayMs) } : {}),
+  };
+}
+
+// Retry-After is either seconds ("120") or an HTTP date
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value !== "string" || !value.trim()) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// attempt 0 = delay before the first retry. Jitter keeps parallel workers from retrying in lockstep.
+export function retryDelay(attempt: number, retryAfter: unknown, { baseDelayMs, maxDelayMs }: RetryOptions): number {
+  const requested = parseRetryAfter(retryAfter);
+  if (requested !== null) return Math.min(requested, maxDelayMs);
+  const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+export type RetryResult<T> =
+  { response: AxiosResponse<T>; attempts: number; error?: undefined } | { response?: undefined; attempts: number; error: FetchError };
+
+// Never throws. A retryable status that is still there after the last retry is returned as the
+// response when `send` accepts it (validateStatus), so callers classify it like any other status.
+export async function requestWithRetry<T>(
+  send: () => Promise<AxiosResponse<T>>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<RetryResult<T>> {
+  for (let attempt = 0; ; attempt++) {
+    const attempts = attempt + 1;
+    let result: RetryResult<T>;
+    let retryAfter: unknown;
+    try {
+      const response = await send();
+      result = { response, attempts };
+      retryAfter = response.headers["retry-after"];
+    } catch (error) {
+      result = { error: toFetchError(error, attempts), attempts };
+      retryAfter = (error as { response?: AxiosResponse }).response?.headers["retry-after"];
+    }
+
+    const failure = result.error ?? (result.response && httpFetchError(result.response.status, attempts));
+    if (!failure || !isRetryable(failure) || attempt >= options.retries) return result;
+
+    // Streamed bodies of a response we're about to throw away
+    (result.response?.data as { destroy?: () => void } | undefined)?.destroy?.();
+    await new Promise((resolve) => setTimeout(resolve, retryDelay(attempt, retryAfter, options)));
+  }
+}
@@ -0,0 +1,207 @@
+import axios from "axios";
+import https from "https";
+import { httpFetchError } from "./errors";
+import { requestWithRetry } from "./retry";
+import type { FetchError } from "./types";
+
+// --- ROBOTS.TXT ---
+// Parsed per the robots exclusion protocol (RFC 9309): the most specific User-agent group wins,
+// then the longest matching rule, with Allow winning ties. Crawl-delay is the common extension.
+
+const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+
+// Matched against "User-agent:" lines unless a job sets its own
+export const DEFAULT_ROBOTS_USER_AGENT = "ColoringScanner";
+
+// Re-fetch robots.txt after an hour so long crawls pick up changes
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// A robots.txt that couldn't be read is asked for again soon, so one bad minute doesn't lock an origin for the hour
+const FAILURE_TTL_MS = 60 * 1000;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export interface RobotsPolicy {
+  isAllowed(url: string): boolean;
+  // Seconds between requests, if the site asks for one
+  crawlDelay: number | null;
+  // robots.txt answered 5xx or not at all (after retries): nothing is allowed, and callers should say why
+  error?: FetchError;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true, crawlDelay: null };
+
+type RobotsFetch = { text: string; error?: undefined } | { text: null; error: FetchError };
+
+function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive User-agent lines share one group
+  let collectingAgents = false;
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    collectingAgents = false;
+    if (!current) return;
+
+    if (field === "allow" || field === "disallow") {
+      // "Disallow:" with no path allows everything
+      if (value) current.rules.push({ allow: field === "allow", pattern: value, regex: patternToRegex(value) });
+    } else if (field === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  });
+
+  return groups;
+}
+
+// "*" matches any run of characters, a trailing "$" anchors the end of the path
+function patternToRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
+
+export function getRobotsPolicy(text: string, userAgent: string): RobotsPolicy {
+  const groups = parseRobotsTxt(text);
+  const agent = userAgent.toLowerCase();
+
+  // Most specific matching product token, else the "*" group(s)
+  let bestLength = 0;
+  let matched: RobotsGroup[] = [];
+  groups.forEach((group) => {
+    group.agents.forEach((token) => {
+      if (token === "*" || !agent.includes(token)) return;
+      if (token.length > bestLength) {
+        bestLength = token.length;
+        matched = [group];
+      } else if (token.length === bestLength && !matched.includes(group)) {
+        matched.push(group);
+      }
+    });
+  });
+  if (matched.length === 0) matched = groups.filter((group) => group.agents.includes("*"));
+  if (matched.length === 0) return ALLOW_ALL;
+
+  const rules = matched.flatMap((group) => group.rules);
+  const crawlDelay = matched.find((group) => group.crawlDelay !== null)?.crawlDelay ?? null;
+
+  return {
+    crawlDelay,
+    isAllowed(url: string) {
+      let path = url;
+      try {
+        const urlObj = new URL(url);
+        path = `${urlObj.pathname}${urlObj.search}`;
+      } catch {}
+
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return !best || best.allow;
+    },
+  };
+}
+
+// 4xx means "no robots.txt" (crawl everything); 5xx or no answer (timeouts and 5xx are retried) means
+// "stay out" until it recovers
+async function fetchRobotsTxt(origin: string): Promise<RobotsFetch> {
+  const { response, error, attempts } = await requestWithRetry(() =>
+    axios.get(`${origin}/robots.txt`, {
+      timeout: 5000,
+      httpsAgent,
+      responseType: "text",
+      validateStatus: () => true,
+      headers: { "User-Agent": "Mozilla/5.0 (compatible; ColoringScanner/2.0)" },
+    })
+  );
+  if (error || response.status >= 500) {
+    const failure = error ?? httpFetchError(response.status, attempts)!;
+    return { text: null, error: { ...failure, message: `robots.txt unavailable: ${failure.message}` } };
+  }
+  if (response.status >= 300) return { text: "" };
+  return { text: String(response.data ?? "") };
+}
+
+// --- CACHE ---
+// One robots.txt fetch per origin, shared by every job in the process
+const cache = new Map<string, { expiresAt: number; robots: Promise<RobotsFetch>; policies: Map<string, RobotsPolicy> }>();
+
+function getCacheEntry(origin: string) {
+  let entry = cache.get(origin);
+  if (!entry || entry.expiresAt < Date.now()) {
+    const fresh = { expiresAt: Date.now() + CACHE_TTL_MS, robots: fetchRobotsTxt(origin), policies: new Map<string, RobotsPolicy>() };
+    fresh.robots.then((robots) => {
+      if (robots.error) fresh.expiresAt = Date.now() + FAILURE_TTL_MS;
+    });
+    cache.set(origin, (entry = fresh));
+  }
+  return entry;
+}
+
+export async function getRobotsPolicyForUrl(url: string, userAgent: string): Promise<RobotsPolicy> {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    return ALLOW_ALL;
+  }
+
+  const entry = getCacheEntry(origin);
+  const { text, error } = await entry.robots;
+  if (text === null) return { isAllowed: () => false, crawlDelay: null, error };
+
+  let policy = entry.policies.get(userAgent);
+  if (!policy) {
+    policy = getRobotsPolicy(text, userAgent);
+    entry.policies.set(userAgent, policy);
+  }
+  return policy;
+}
+
+// "Sitemap:" lines apply to the whole file, not to a User-agent group
+export async function getRobotsSitemaps(url: string): Promise<string[]> {
+  const { text } = await getCacheEntry(new URL(url).origin).robots;
+  if (!text) return [];
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => /^sitemap\s*:/i.test(line))
+    .map((line) => line.slice(line.indexOf(":") + 1).trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,66 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import https from "https";
+import zlib from "zlib";
+import { getRobotsSitemaps } from "./robots";
+
+// --- SITEMAP.XML READER ---
+// Follows <sitemapindex> files down to <urlset> files. Gzipped sitemaps (.xml.gz) are detected by
+// their magic bytes, so it works whether or not the server sets Content-Encoding.
+
+const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+
+// Stop following index files after this many sitemaps (guards against index loops)
+const MAX_SITEMAP_FILES = 500;
+
+async function fetchSitemapXml(url: string): Promise<string> {
+  const response = await axios.get(url, {
+    timeout: 20000,
+    httpsAgent,
+    responseType: "arraybuffer",
+    headers: { "User-Agent": "Mozilla/5.0 (compatible; ColoringScanner/2.0)" },
+  });
+
+  let body = Buffer.from(response.data);
+  if (body[0] === 0x1f && body[1] === 0x8b) body = zlib.gunzipSync(body);
+  return body.toString("utf8");
+}
+
+// Sitemaps declared in robots.txt, else the conventional /sitemap.xml
+export async function findSitemaps(siteUrl: string): Promise<string[]> {
+  const declared = await getRobotsSitemaps(siteUrl);
+  return declared.length > 0 ? declared : [new URL("/sitemap.xml", siteUrl).href];
+}
+
+export async function fetchSitemapUrls(sitemapUrls: string[]): Promise<{ urls: string[]; errors: string[] }> {
+  const pending = [...sitemapUrls];
+  const fetched = new Set<string>();
+  const urls = new Set<string>();
+  const errors: string[] = [];
+
+  while (pending.length > 0 && fetched.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = pending.shift()!;
+    if (fetched.has(sitemapUrl)) continue;
+    fetched.add(sitemapUrl);
+
+    try {
+      const $ = cheerio.load(await fetchSitemapXml(sitemapUrl), { xml: true });
+
+      // Index file -> more sitemaps to read
+      $("sitemapindex > sitemap > loc").each((_, element) => {
+        const loc = $(element).text().trim();
+        if (loc) pending.push(loc);
+      });
+
+      // Regular sitemap -> page URLs
+      $("urlset > url > loc").each((_, element) => {
+        const loc = $(element).text().trim();
+        if (loc) urls.add(loc);
+      });
+    } catch (error) {
+      errors.push(`${sitemapUrl}: ${(error as Error).message}`);
+    }
+  }
+
+  return { urls: Array.from(urls), errors };
+}
@@ -0,0 +1,156 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { randomUUID } from "crypto";
+import https from "https";
+import type { SiteProfile } from "@/lib/profiles";
+import { removeNoise } from "@/lib/profiles/dom";
+import type { Soft404Signal, Soft404Verdict } from "./types";
+
+// --- CONTENT-BASED SOFT-404 DETECTION ---
+// WordPress themes answer 200 with "Nothing found" or an empty category grid. Each signal has a
+// weight; they combine as independent evidence (1 - Π(1 - weight)) into a confidence score.
+
+const httpsAgent = new https.Agent({ keepAlive: true, rejectUnauthorized: false });
+
+// At or above this, a 200 page is reported as a soft-404
+export const SOFT_404_THRESHOLD = 0.6;
+
+// Body text this similar to the site's real 404 page is the 404 template
+const BODY_SIMILARITY_THRESHOLD = 0.85;
+
+const SIGNAL_WEIGHTS: Record<Exclude<Soft404Signal, "matches-404-page">, number> = {
+  "redirect-home": 1,
+  "same-title-as-404": 0.8,
+  "empty-listing": 0.75,
+  "not-found-text": 0.7,
+};
+
+// Matched against the <title> and the first <h1>
+const NOT_FOUND_PATTERNS = [
+  /\bnothing (was )?found\b/i,
+  /\bpage not found\b/i,
+  /\bno (posts|results|items|pages) found\b/i,
+  /\berror 404\b|\b404 error\b/i,
+];
+
+// Re-fingerprint after an hour so theme changes are picked up
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+interface NotFoundFingerprint {
+  title: string;
+  words: Set<string>;
+}
+
+function pageTitle($: cheerio.CheerioAPI): string {
+  return $("title").first().text().replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Distinct words of the visible text, minus the URL's own path segments (404 pages often echo them)
+function pageWords($: cheerio.CheerioAPI, url: string): Set<string> {
+  const pathWords = new Set(new URL(url).pathname.toLowerCase().split(/[^a-z0-9]+/));
+  const body = $("body").clone();
+  body.find("script, style, noscript").remove();
+  const words = body
+    .text()
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+  return new Set(words.filter((word) => word.length > 2 && !pathWords.has(word)));
+}
+
+// An empty side says nothing (an image-only page isn't "the same" as an image-only 404), so it scores 0
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+// Any status; null for non-HTML responses and network errors. Noise is removed like crawlPage does.
+async function fetchHtml(url: string, profile: SiteProfile): Promise<{ $: cheerio.CheerioAPI; status: number; finalUrl: string } | null> {
+  try {
+    const response = await axios.get(url, {
+      timeout: 10000,
+      httpsAgent,
+      responseType: "text",
+      validateStatus: () => true,
+      headers: { "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36" },
+    });
+    if (!String(response.headers["content-type"] ?? "").includes("text/html")) return null;
+
+    const $ = cheerio.load(String(response.data));
+    removeNoise($, profile);
+    return { $, status: response.status, finalUrl: response.request?.res?.responseUrl || url };
+  } catch {
+    return null;
+  }
+}
+
+// Fetch a path that can't exist and remember what the site's 404 looks like.
+// null if the probe redirected (that case is caught as "redirected to home") or didn't return HTML.
+async function fetchFingerprint(origin: string, profile: SiteProfile): Promise<NotFoundFingerprint | null> {
+  const probeUrl = `${origin}/${randomUUID()}`;
+  const page = await fetchHtml(probeUrl, profile);
+  if (!page || page.finalUrl !== probeUrl) return null;
+  return { title: pageTitle(page.$), words: pageWords(page.$, probeUrl) };
+}
+
+// --- CACHE ---
+// One probe per origin and profile, shared by every job in the process
+const cache = new Map<string, { expiresAt: number; fingerprint: Promise<NotFoundFingerprint | null> }>();
+
+function getFingerprint(url: string, profile: SiteProfile): Promise<NotFoundFingerprint | null> {
+  const origin = new URL(url).origin;
+  const key = `${profile.id} ${origin}`;
+  let entry = cache.get(key);
+  if (!entry || entry.expiresAt < Date.now()) {
+    entry = { expiresAt: Date.now() + CACHE_TTL_MS, fingerprint: fetchFingerprint(origin, profile) };
+    cache.set(key, entry);
+  }
+  return entry.fingerprint;
+}
+
+const combine = (weights: number[]) => 1 - weights.reduce((remaining, weight) => remaining * (1 - weight), 1);
+
+// Score a 200 HTML page. Expects noise already removed, as crawlPage does.
+export async function detectSoft404($: cheerio.CheerioAPI, url: string, profile: SiteProfile): Promise<Soft404Verdict> {
+  const signals: Soft404Signal[] = [];
+  const weights: number[] = [];
+  const add = (signal: Soft404Signal, weight: number) => {
+    signals.push(signal);
+    weights.push(weight);
+  };
+
+  const title = pageTitle($);
+  const heading = $("h1").first().text().trim();
+  if (NOT_FOUND_PATTERNS.some((pattern) => pattern.test(title) || pattern.test(heading))) {
+    add("not-found-text", SIGNAL_WEIGHTS["not-found-text"]);
+  }
+
+  // A listing container with nothing to list, e.g. an empty category grid
+  const emptyListing = profile.listingSelectors.some((selector) => {
+    const listing = $(selector);
+    return listing.length > 0 && listing.find("a[href]").length === 0;
+  });
+  if (emptyListing) add("empty-listing", SIGNAL_WEIGHTS["empty-listing"]);
+
+  const fingerprint = await getFingerprint(url, profile);
+  if (fingerprint) {
+    if (fingerprint.title && title === fingerprint.title) add("same-title-as-404", SIGNAL_WEIGHTS["same-title-as-404"]);
+
+    const similarity = jaccard(pageWords($, url), fingerprint.words);
+    if (similarity >= BODY_SIMILARITY_THRESHOLD) add("matches-404-page", similarity);
+  }
+
+  return { confidence: Math.round(combine(weights) * 100) / 100, signals };
+}
+
+// For callers that only have a URL (e.g. /api/check): fetch, remove noise, score. null if it isn't a 200 HTML page.
+export async function detectSoft404ForUrl(url: string, profile: SiteProfile): Promise<Soft404Verdict | null> {
+  const page = await fetchHtml(url, profile);
+  if (!page || page.status !== 200) return null;
+  return detectSoft404(page.$, page.finalUrl, profile);
+}
+
+export const REDIRECT_HOME_VERDICT: Soft404Verdict = { confidence: SIGNAL_WEIGHTS["redirect-home"], signals: ["redirect-home"] };
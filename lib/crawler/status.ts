@@ -0,0 +1,53 @@
+import type { LinkStatus } from "./types";
+import { canonicalizeUrl, DEFAULT_NORMALIZATION } from "./url";
+
+// --- STATUS CLASSIFICATION ---
+// One mapping from HTTP outcomes to LinkStatus, shared by /api/crawl, /api/check and the job engine.
+
+export const isBrokenStatus = (status: LinkStatus) => status === "broken" || status === "soft-404" || status === "error";
+
+// Pages whose links are worth following
+export const isCrawlableStatus = (status: LinkStatus) => status === "ok" || status === "redirect";
+
+export const isRedirectCode = (code: number) => code === 301 || code === 302 || code === 303 || code === 307 || code === 308;
+
+// Query strings matter here: "/?attachment_id=1" redirecting to "/" is still a missing page
+const HOME_COMPARISON = { ...DEFAULT_NORMALIZATION, keepQueryParams: ["*"] };
+
+// A redirect to the homepage is how WordPress hides a missing page
+export function isHomeRedirect(originalUrl: string, targetUrl: string, homeUrl: string): boolean {
+  const home = canonicalizeUrl(homeUrl, HOME_COMPARISON);
+  return canonicalizeUrl(targetUrl, HOME_COMPARISON) === home && canonicalizeUrl(originalUrl, HOME_COMPARISON) !== home;
+}
+
+export interface StatusClassification {
+  status: Exclude<LinkStatus, "pending">;
+  // Human readable label, e.g. "404 Not Found", "Redirected to Home", "Status 500"
+  label: string;
+}
+
+export function classifyResponse({
+  statusCode,
+  originalUrl,
+  targetUrl,
+  homeUrl,
+}: {
+  statusCode: number;
+  originalUrl: string;
+  // Location header (unfollowed redirect) or final URL (followed redirects)
+  targetUrl?: string | null;
+  homeUrl: string;
+}): StatusClassification {
+  if (statusCode === 404 || statusCode === 410) return { status: "broken", label: statusCode === 404 ? "404 Not Found" : "410 Gone" };
+  if (statusCode >= 400) return { status: "error", label: `Status ${statusCode}` };
+
+  if (targetUrl && isHomeRedirect(originalUrl, targetUrl, homeUrl)) return { status: "soft-404", label: "Redirected to Home" };
+  if (isRedirectCode(statusCode)) {
+    return targetUrl
+      ? { status: "redirect", label: `Redirect ${statusCode}` }
+      : { status: "broken", label: `Redirect ${statusCode} without Location` };
+  }
+  if (statusCode >= 200 && statusCode < 300) return { status: "ok", label: "OK" };
+
+  return { status: "error", label: `Status ${statusCode}` };
+}
@@ -0,0 +1,409 @@
+// --- SHARED CRAWLER TYPES ---
+// Used by the API routes, the job engine and the viewer pages.
+
+import type { UrlRuleAction, UrlRuleMatcher } from "./url-rules";
+
+export type LinkStatus = "ok" | "broken" | "soft-404" | "redirect" | "error" | "pending";
+
+export interface BrokenReportItem {
+  brokenLink: string;
+  redirectedTo: string | null;
+  // Every hop, when the link redirects
+  redirectChain?: RedirectChain;
+  // The page that discovered it ("ROOT" for the start URL)
+  foundOnPage: string;
+  // Every page linking here, discoverer first. The report is sorted by sources.length.
+  sources: LinkSource[];
+  status: LinkStatus;
+  // Why a soft-404 was flagged, and how sure the classifier is
+  soft404?: Soft404Verdict;
+  // Why the request failed (HTTP status class or network failure)
+  error?: FetchError;
+  // Where the link sits on foundOnPage
+  linkContext?: LinkContext;
+}
+
+// A page linking to a reported URL
+export interface LinkSource {
+  page: string;
+  // Absent for links imported from a saved state
+  context?: LinkContext;
+}
+
+// --- FETCH ERRORS ---
+export type FetchErrorKind =
+  "dns" | "connection-refused" | "connection-reset" | "timeout" | "tls" | "http-4xx" | "http-5xx" | "too-many-redirects" | "invalid-url" | "unknown";
+
+export interface FetchError {
+  kind: FetchErrorKind;
+  // Node/axios error code (ENOTFOUND, ECONNABORTED...) or the HTTP status ("503")
+  code: string;
+  message: string;
+  statusCode: number | null;
+  // Requests made, retries included
+  attempts: number;
+}
+
+// One link as it appears on a page (the first occurrence describes it)
+export interface LinkContext {
+  url: string;
+  anchorText: string;
+  // rel tokens, e.g. ["nofollow", "sponsored", "ugc"]
+  rel: string[];
+  // Nearest heading above the link
+  heading: string | null;
+  // CSS path from <body> (or the nearest element with an id)
+  selector: string;
+  // Links on the page pointing at the same URL
+  occurrences: number;
+}
+
+// --- SOFT-404 ---
+// redirect-home: redirects to the homepage. matches-404-page: body text like the site's real 404 page.
+// same-title-as-404: same <title> as the real 404 page. not-found-text: "Nothing found" in the title or <h1>.
+// empty-listing: a listing container (profile listingSelectors) with no links in it.
+export type Soft404Signal = "redirect-home" | "matches-404-page" | "same-title-as-404" | "not-found-text" | "empty-listing";
+
+export interface Soft404Verdict {
+  // 0..1
+  confidence: number;
+  signals: Soft404Signal[];
+}
+
+// --- REDIRECTS ---
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  // Absolute Location header
+  location: string;
+}
+
+export interface RedirectChain {
+  hops: RedirectHop[];
+  finalUrl: string;
+  // Status of the last response; null if it never answered (network error, loop, too many hops)
+  finalStatus: number | null;
+  loop: boolean;
+  // Stopped following before the chain ended
+  truncated: boolean;
+  // The caller's gate (robots.txt) kept finalUrl from being requested
+  blocked?: boolean;
+  // Why the last hop never answered
+  error?: FetchError;
+}
+
+// loop: A -> B -> A. too-many-hops: longer than the hop limit. temporary: a 302/307 hop that should probably be a 301.
+// broken-target: the chain ends in an error or never answers.
+export type RedirectIssue = "loop" | "too-many-hops" | "temporary" | "broken-target";
+
+export interface RedirectReportItem {
+  url: string;
+  foundOnPage: string;
+  chain: RedirectChain;
+  issues: RedirectIssue[];
+}
+
+// --- EXTERNAL LINKS ---
+// One outbound URL, checked once (HEAD, GET fallback)
+export interface ExternalCheckResult {
+  url: string;
+  status: Exclude<LinkStatus, "pending">;
+  // Same labels as /api/check, e.g. "404 Not Found", "Redirected to Home", "ECONNREFUSED"
+  label: string;
+  statusCode: number | null;
+  // Where redirects ended, if somewhere else
+  finalUrl: string | null;
+  error?: FetchError;
+}
+
+export interface ExternalReportItem {
+  url: string;
+  // "pending" until the check has run
+  status: LinkStatus;
+  label: string | null;
+  statusCode: number | null;
+  finalUrl: string | null;
+  error?: FetchError;
+  // Every crawled page that links to it
+  foundOn: string[];
+}
+
+// --- ASSETS ---
+// media = <source> inside <video>/<audio>; download = the profile's download buttons
+export type AssetKind = "image" | "media" | "stylesheet" | "script" | "download";
+
+export interface PageAsset {
+  url: string;
+  kind: AssetKind;
+}
+
+export interface AssetCheckResult extends PageAsset {
+  status: Exclude<LinkStatus, "pending">;
+  // e.g. "404 Not Found", "Wrong Content-Type (text/html)", "Empty Response (0 bytes)"
+  label: string;
+  statusCode: number | null;
+  contentType: string | null;
+  error?: FetchError;
+}
+
+export interface AssetReportItem extends PageAsset {
+  // "pending" until the check has run
+  status: LinkStatus;
+  label: string | null;
+  statusCode: number | null;
+  contentType: string | null;
+  error?: FetchError;
+  // Every crawled page that uses it
+  usedOn: string[];
+}
+
+// Sitemap vs. link graph (only meaningful once the crawl has finished)
+export interface SitemapCoverage {
+  sitemapUrls: number;
+  crawledPages: number;
+  // Listed in the sitemap, but no crawled page links to them
+  orphans: { url: string; status: LinkStatus }[];
+  // Crawled OK pages the sitemap doesn't list
+  missingFromSitemap: { url: string; foundOnPage: string }[];
+  // Sitemap files that could not be read
+  errors: string[];
+}
+
+export interface PageNode {
+  url: string;
+  status: LinkStatus;
+  children: string[];
+  parent: string | null;
+  depth?: number;
+  isLeaf?: boolean;
+  // Where a redirecting page ends up (last hop of the chain)
+  redirectedTo?: string | null;
+}
+
+export type SiteMap = Record<string, PageNode>;
+
+// One row of the page inventory export
+export interface PageInventoryItem {
+  url: string;
+  status: LinkStatus;
+  depth: number;
+  // null for the start URL and sitemap seeds
+  parent: string | null;
+  // Internal links found on the page
+  links: number;
+  redirectedTo: string | null;
+  contentType: string | null;
+}
+
+// Flat view used by the clean crawler page
+export interface CrawlResult {
+  url: string;
+  status: "queued" | "crawling" | "active" | "final" | "broken";
+  redirectUrl?: string;
+  source?: string;
+}
+
+export interface QueueItem {
+  url: string;
+  parent: string | null;
+  depth: number;
+}
+
+export interface CrawlerState {
+  queue: QueueItem[];
+  visited: string[];
+  siteMap?: SiteMap;
+  brokenLinks: BrokenReportItem[];
+}
+
+// --- URL RULES ---
+// A rule of the crawl's profile with what it kept out (exclude rules; include rules only let URLs through)
+export interface UrlRuleReportItem {
+  label: string;
+  action: UrlRuleAction;
+  // null when the rule has hits but is no longer in the profile
+  matcher: UrlRuleMatcher | null;
+  // Unique URLs it excluded
+  hits: number;
+  // The first few of them, with the page they were found on (null = sitemap)
+  samples: { url: string; source: string | null }[];
+}
+
+// --- HREFLANG ---
+// <link rel="alternate" hreflang="..."> from a page's <head>
+export interface HreflangAlternate {
+  // As written ("fr", "pt-BR", "x-default")
+  hreflang: string;
+  url: string;
+}
+
+export type HreflangIssueKind =
+  "invalid-code" | "missing-self-reference" | "missing-x-default" | "no-return-link" | "broken-alternate" | "redirected-alternate";
+
+export interface HreflangIssue {
+  // The page whose alternates are wrong
+  page: string;
+  kind: HreflangIssueKind;
+  // The alternate concerned (null for issues with the set as a whole)
+  hreflang: string | null;
+  alternate: string | null;
+  // Broken and redirected alternates
+  status?: LinkStatus;
+}
+
+export interface LanguageStats {
+  // hreflang code, or "default" for pages outside any language folder without one
+  language: string;
+  pages: number;
+  broken: number;
+}
+
+export interface HreflangReport {
+  // Crawled pages that declare alternates
+  pagesWithAlternates: number;
+  issues: HreflangIssue[];
+  languages: LanguageStats[];
+}
+
+// --- CANONICAL & INDEXING ---
+export interface PageIndexing {
+  // <link rel="canonical">, absolute (null = none)
+  canonical: string | null;
+  // <meta name="robots"> and X-Robots-Tag directives, lowercased ("noindex", "nofollow", "max-snippet:50"...)
+  robots: string[];
+}
+
+export type IndexingIssueKind = "broken-canonical" | "redirected-canonical" | "canonical-chain" | "noindex-in-navigation" | "noindex-in-sitemap";
+
+export interface IndexingIssue {
+  page: string;
+  kind: IndexingIssueKind;
+  // The page's canonical, as declared
+  canonical: string | null;
+  // Broken and redirected canonicals
+  status?: LinkStatus;
+  // Canonical chains: where the canonical's own canonical points
+  chainsTo?: string;
+}
+
+export interface IndexingReport {
+  // Pages whose canonical is another URL; the crawl follows the canonical's links instead of theirs
+  duplicates: { url: string; canonical: string }[];
+  // Pages asking not to be indexed
+  noindex: string[];
+  issues: IndexingIssue[];
+}
+
+// --- CRAWL DIFF ---
+// One URL whose outcome changed between two crawls. null = not in that crawl.
+export interface CrawlDiffItem {
+  url: string;
+  before: LinkStatus | null;
+  after: LinkStatus | null;
+  // A page linking to it (in the newer crawl, or the older one when it's gone)
+  foundOnPage: string;
+}
+
+export interface RedirectChangeItem {
+  url: string;
+  before: string | null;
+  after: string | null;
+  foundOnPage: string;
+}
+
+export interface CrawlDiffSide {
+  label: string;
+  pages: number;
+  broken: number;
+  // Saved states without a site map only know their broken links: pages can't be compared then
+  hasSiteMap: boolean;
+  // Stopped or capped by max pages with URLs still queued: only pages both crawls fetched are compared then
+  partial: boolean;
+}
+
+export interface CrawlDiff {
+  base: CrawlDiffSide;
+  head: CrawlDiffSide;
+  newlyBroken: CrawlDiffItem[];
+  // Broken before; after = null when nothing links to it anymore
+  fixed: CrawlDiffItem[];
+  newPages: CrawlDiffItem[];
+  removedPages: CrawlDiffItem[];
+  // Other status changes (redirect -> ok, soft-404 -> broken...)
+  statusChanges: CrawlDiffItem[];
+  redirectChanges: RedirectChangeItem[];
+}
+
+// Per-host request rate as the politeness scheduler currently allows it
+export interface HostRate {
+  host: string;
+  // Requests started per second over the last 10 seconds
+  requestsPerSecond: number;
+  // Current gap between request starts
+  delayMs: number;
+  // Current parallel limit, and requests in flight
+  concurrency: number;
+  active: number;
+  // Smoothed response time
+  latencyMs: number | null;
+  // Running below the configured limits
+  throttled: boolean;
+  // What last made it slow down
+  lastSlowdown: "429" | "503" | "timeout" | "latency" | null;
+}
+
+export interface LiveScanItem {
+  url: string;
+  foundCount: number;
+  status: LinkStatus;
+  depth: number;
+  isLeaf?: boolean;
+}
+
+// Result of fetching + parsing a single page (the /api/crawl contract)
+export interface PageCrawlResult {
+  url: string;
+  status: Exclude<LinkStatus, "pending">;
+  redirectLocation: string | null;
+  // Every hop, when the page redirects
+  redirectChain?: RedirectChain;
+  // Set when status is "soft-404"
+  soft404?: Soft404Verdict;
+  // Set when the request failed ("broken" and "error")
+  error?: FetchError;
+  links: string[];
+  // Same order as `links`
+  linkContexts?: LinkContext[];
+  // Outbound links (other hosts), only collected when asked for
+  externalLinks?: string[];
+  // Images, scripts, stylesheets and downloads, only collected when asked for
+  assets?: PageAsset[];
+  // Canonical and robots directives (OK HTML pages; X-Robots-Tag only for other files)
+  indexing?: PageIndexing;
+  // Internal links inside the page's menus, taken before noise removal
+  navigationLinks?: string[];
+  // hreflang alternates from <head> (OK HTML pages, leaf pages too)
+  alternates?: HreflangAlternate[];
+  // Internal links a URL rule kept out, with the rule's label
+  ruleExcludedLinks?: RuleExcludedLink[];
+  // Set when a content-type rule excludes this page (the rule's label); nothing else is reported then
+  excludedByRule?: string;
+  isLeaf: boolean;
+  // From the response headers of OK pages
+  contentType?: string | null;
+  lastModified?: string | null;
+  etag?: string | null;
+  // 304 to a conditional request: links etc. are empty and the caller reuses the earlier crawl's
+  notModified?: boolean;
+}
+
+export interface RuleExcludedLink {
+  url: string;
+  rule: string;
+}
+
+// Cache validators kept from an earlier crawl (lastModified as an ISO date)
+export interface PageValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
@@ -0,0 +1,128 @@
+// --- URL RULES ---
+// Ordered include/exclude rules deciding which in-scope URLs the crawler queues. The first rule that
+// matches decides; a URL no rule matches is included. Each rule has exactly one matcher:
+// - glob: the path, "*" within a segment, "**" across segments, "{a,b}" alternatives ("/wp-*/**", "**/*.{jpg,png}")
+// - regex: the full URL
+// - pathPrefix: whole path segments ("/fr" matches /fr and /fr/..., not /free)
+// - queryParam: the param is present ("*" = any query string)
+// - contentType: the response's MIME type ("application/pdf", "image/*"); checked once the page answers
+// URL rules are checked before queueing, content-type rules on the HEAD/GET response.
+
+export type UrlRuleAction = "include" | "exclude";
+
+export interface UrlRule {
+  action: UrlRuleAction;
+  // Shown with the rule's hit counter (default: generated from the matcher)
+  name?: string;
+  glob?: string;
+  regex?: string;
+  pathPrefix?: string;
+  queryParam?: string;
+  contentType?: string;
+}
+
+export const URL_RULE_MATCHERS = ["glob", "regex", "pathPrefix", "queryParam", "contentType"] as const;
+export type UrlRuleMatcher = (typeof URL_RULE_MATCHERS)[number];
+
+// Subject: the URL, or the Content-Type for response rules
+export interface CompiledUrlRule<Subject = URL> {
+  action: UrlRuleAction;
+  // Identifies the rule in hit counters
+  label: string;
+  matcher: UrlRuleMatcher;
+  test: (subject: Subject) => boolean;
+}
+
+export interface UrlRuleSet {
+  // Checked before queueing
+  url: CompiledUrlRule[];
+  // Checked on the response
+  response: CompiledUrlRule<string>[];
+}
+
+export interface UrlRuleVerdict {
+  allowed: boolean;
+  // Label of the deciding rule, null when none matched
+  rule: string | null;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function globToRegex(glob: string): RegExp {
+  let pattern = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") pattern += "[^/]*";
+    else if (char === "?") pattern += "[^/]";
+    else if (char === "{") {
+      pattern += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      pattern += ")";
+      braces--;
+    } else if (char === "," && braces > 0) pattern += "|";
+    else pattern += escapeRegex(char);
+  }
+  if (braces > 0) throw new Error(`Unclosed "{" in glob: ${glob}`);
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function urlTest(matcher: Exclude<UrlRuleMatcher, "contentType">, value: string): (url: URL) => boolean {
+  switch (matcher) {
+    case "glob": {
+      const regex = globToRegex(value);
+      return (url) => regex.test(url.pathname);
+    }
+    case "regex": {
+      const regex = new RegExp(value, "i");
+      return (url) => regex.test(url.href);
+    }
+    case "pathPrefix": {
+      const prefix = value.toLowerCase().replace(/\/+$/, "");
+      return (url) => {
+        const path = url.pathname.toLowerCase();
+        return path === prefix || path.startsWith(`${prefix}/`);
+      };
+    }
+    case "queryParam":
+      return (url) => (value === "*" ? url.search.length > 1 : url.searchParams.has(value));
+  }
+}
+
+function contentTypeTest(value: string): (contentType: string) => boolean {
+  const [type, subtype] = value.toLowerCase().split("/");
+  return (contentType) => {
+    const [actualType, actualSubtype] = contentType.toLowerCase().split(";")[0].trim().split("/");
+    return actualType === type && (subtype === "*" || actualSubtype === subtype);
+  };
+}
+
+// Throws on a rule without exactly one matcher, or an invalid regex
+export function compileUrlRules(rules: UrlRule[]): UrlRuleSet {
+  const set: UrlRuleSet = { url: [], response: [] };
+  rules.forEach((rule) => {
+    const matchers = URL_RULE_MATCHERS.filter((matcher) => rule[matcher] !== undefined);
+    if (matchers.length !== 1) throw new Error(`URL rule needs exactly one of ${URL_RULE_MATCHERS.join(", ")}`);
+    const [matcher] = matchers;
+    const value = rule[matcher]!;
+    const base = { action: rule.action, label: rule.name || `${rule.action} ${matcher} ${value}`, matcher };
+    if (matcher === "contentType") set.response.push({ ...base, test: contentTypeTest(value) });
+    else set.url.push({ ...base, test: urlTest(matcher, value) });
+  });
+  return set;
+}
+
+const decide = <Subject>(rules: CompiledUrlRule<Subject>[], subject: Subject): UrlRuleVerdict => {
+  const rule = rules.find((candidate) => candidate.test(subject));
+  return { allowed: !rule || rule.action === "include", rule: rule?.label ?? null };
+};
+
+export const evaluateUrl = (rules: UrlRuleSet, url: URL): UrlRuleVerdict => decide(rules.url, url);
+
+// A missing Content-Type matches no rule
+export const evaluateContentType = (rules: UrlRuleSet, contentType: string | null | undefined): UrlRuleVerdict =>
+  contentType ? decide(rules.response, contentType) : { allowed: true, rule: null };
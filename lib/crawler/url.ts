@@ -0,0 +1,75 @@
+// --- URL CANONICALIZER ---
+// The single definition of "same URL" for deduplication. Every route, the job engine and
+// the viewer pages key their registries with canonicalizeUrl().
+
+export interface NormalizationRules {
+  // WordPress is usually case-insensitive, so "/Page" and "/page" are the same post
+  lowercasePath: boolean;
+  // "page/" and "page" are the same post
+  stripTrailingSlash: boolean;
+  // "www.site.com" and "site.com" are the same site
+  stripWww: boolean;
+  // Query params that make a distinct page (e.g. "page", "p"). Everything else (?orderby=, ?source=) is stripped.
+  // ["*"] keeps every param.
+  keepQueryParams: string[];
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationRules = {
+  lowercasePath: true,
+  stripTrailingSlash: true,
+  stripWww: true,
+  keepQueryParams: [],
+};
+
+export function resolveNormalizationRules(rules?: Partial<NormalizationRules>): NormalizationRules {
+  return { ...DEFAULT_NORMALIZATION, ...rules };
+}
+
+const keepsParam = (rules: NormalizationRules, name: string) => rules.keepQueryParams.includes("*") || rules.keepQueryParams.includes(name);
+
+// True if the URL has at least one query param the rules consider meaningful
+export function hasKeptQueryParam(url: URL, rules: NormalizationRules = DEFAULT_NORMALIZATION): boolean {
+  return Array.from(url.searchParams.keys()).some((name) => keepsParam(rules, name));
+}
+
+export function canonicalizeUrl(url: string, rules: NormalizationRules = DEFAULT_NORMALIZATION): string {
+  try {
+    const urlObj = new URL(url);
+
+    let host = urlObj.host.toLowerCase();
+    if (rules.stripWww) host = host.replace(/^www\./, "");
+
+    let cleanPath = rules.lowercasePath ? urlObj.pathname.toLowerCase() : urlObj.pathname;
+    if (rules.stripTrailingSlash && cleanPath.length > 1) {
+      cleanPath = cleanPath.replace(/\/+$/, "") || "/";
+    }
+    // Root is always "" so "https://site.com" and "https://site.com/" match
+    if (cleanPath === "/") cleanPath = "";
+
+    // Keep allow-listed params, sorted so ?a=1&b=2 and ?b=2&a=1 match
+    const params = Array.from(urlObj.searchParams.entries())
+      .filter(([name]) => keepsParam(rules, name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+    return `${urlObj.protocol}//${host}${cleanPath}${search}`;
+  } catch {
+    return url;
+  }
+}
+
+// The URL to actually fetch for a discovered link: same path casing and trailing slash as the
+// site uses, minus the fragment and any stripped query params
+export function cleanLinkUrl(url: URL, rules: NormalizationRules = DEFAULT_NORMALIZATION): string {
+  const clean = new URL(url.href);
+  clean.hash = "";
+  if (rules.stripWww) clean.hostname = clean.hostname.replace(/^www\./, "");
+  Array.from(clean.searchParams.keys()).forEach((name) => {
+    if (!keepsParam(rules, name)) clean.searchParams.delete(name);
+  });
+  return clean.href;
+}
+
+export function createCanonicalizer(rules: NormalizationRules = DEFAULT_NORMALIZATION): (url: string) => string {
+  return (url) => canonicalizeUrl(url, rules);
+}
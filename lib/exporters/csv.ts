@@ -0,0 +1,17 @@
+import type { Cell, Table } from "./report-tables";
+
+// --- CSV WRITER ---
+// RFC 4180: CRLF line ends, fields with commas, quotes or line breaks quoted. The BOM makes Excel read UTF-8.
+// Text starting like a formula (anchor text, URLs from the crawled site) gets a leading ' so spreadsheets don't run it.
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const field = (value: Cell) => {
+  const raw = value === null ? "" : String(value);
+  const text = typeof value === "string" && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function buildCsv({ headers, rows }: Table): string {
+  return "\uFEFF" + [headers, ...rows].map((row) => row.map(field).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,49 @@
+import type { CrawlDiff, CrawlDiffItem, CrawlDiffSide } from "@/lib/crawler/types";
+
+// --- CRAWL DIFF AS MARKDOWN ---
+// For release notes: a summary, then one table per kind of change (empty sections are left out).
+
+const cell = (value: string | null) => (value ?? "—").replace(/\|/g, "\\|").replace(/\s+/g, " ");
+
+const table = (headers: string[], rows: (string | null)[][]) =>
+  [`| ${headers.join(" | ")} |`, `| ${headers.map(() => "---").join(" | ")} |`, ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`)].join("\n");
+
+const statusRows = (items: CrawlDiffItem[]) => items.map((item) => [item.url, item.before, item.after, item.foundOnPage]);
+
+const describe = (side: CrawlDiffSide) => `${side.label} (${side.pages.toLocaleString("en")} URLs, ${side.broken.toLocaleString("en")} broken)`;
+
+export function buildDiffMarkdown(diff: CrawlDiff): string {
+  const sections: [string, string[], (string | null)[][]][] = [
+    ["Newly broken", ["URL", "Before", "Now", "Found on"], statusRows(diff.newlyBroken)],
+    ["Fixed", ["URL", "Before", "Now", "Found on"], statusRows(diff.fixed)],
+    ["Status changes", ["URL", "Before", "Now", "Found on"], statusRows(diff.statusChanges)],
+    [
+      "Redirect target changes",
+      ["URL", "Redirected to before", "Redirects to now", "Found on"],
+      diff.redirectChanges.map((item) => [item.url, item.before, item.after, item.foundOnPage]),
+    ],
+    ["New pages", ["URL", "Status", "Found on"], diff.newPages.map((item) => [item.url, item.after, item.foundOnPage])],
+    ["Removed pages", ["URL", "Status", "Found on"], diff.removedPages.map((item) => [item.url, item.before, item.foundOnPage])],
+  ];
+
+  const lines = [
+    "# Crawl changes",
+    "",
+    `- **Before:** ${describe(diff.base)}`,
+    `- **After:** ${describe(diff.head)}`,
+    "",
+    ...sections.map(([title, , rows]) => `- ${title}: ${rows.length}`),
+  ];
+  if (!diff.base.hasSiteMap || !diff.head.hasSiteMap) {
+    lines.push("", "_One of the crawls has no site map, so only broken links were compared._");
+  }
+  if (diff.base.partial || diff.head.partial) {
+    lines.push("", "_One of the crawls didn't finish (stopped or capped by max pages), so only pages both crawls fetched were compared._");
+  }
+
+  sections
+    .filter(([, , rows]) => rows.length > 0)
+    .forEach(([title, headers, rows]) => lines.push("", `## ${title} (${rows.length})`, "", table(headers, rows)));
+
+  return `${lines.join("\n")}\n`;
+}
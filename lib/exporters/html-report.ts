@@ -0,0 +1,224 @@
+import { fetchErrorLabel } from "@/lib/crawler/errors";
+import type { BrokenReportItem, LinkStatus, PageInventoryItem, RedirectReportItem } from "@/lib/crawler/types";
+import type { JobStats } from "@/lib/jobs/types";
+import { linkSources } from "./report-tables";
+
+// --- HTML AUDIT REPORT ---
+// One file to send to clients: inline CSS and script, no external assets. Everything is rendered
+// server-side; the script only filters (by text and status) what's already there.
+
+export interface HtmlReportInput {
+  startUrl: string;
+  // Crawl start and report time, epoch ms
+  crawledAt: number;
+  generatedAt: number;
+  // Whether the crawl finished ("completed") or the report shows a partial crawl
+  state: string;
+  stats: JobStats;
+  brokenLinks: BrokenReportItem[];
+  redirects: RedirectReportItem[];
+  pages: PageInventoryItem[];
+}
+
+const STATUS_LABELS: Record<LinkStatus, string> = {
+  ok: "OK",
+  redirect: "Redirect",
+  broken: "Broken",
+  "soft-404": "Soft 404",
+  error: "Error",
+  pending: "Not crawled",
+};
+
+const escapeHtml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Lowercased text the filter box matches against
+const filterText = (...values: (string | null | undefined)[]) => escapeHtml(values.filter(Boolean).join(" ").toLowerCase());
+
+const badge = (status: LinkStatus) => `<span class="badge ${status}">${STATUS_LABELS[status]}</span>`;
+
+const link = (url: string) => `<a href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(url)}</a>`;
+
+const issueLabel = (item: BrokenReportItem) =>
+  item.error
+    ? fetchErrorLabel(item.error)
+    : item.soft404
+      ? `${Math.round(item.soft404.confidence * 100)}% sure: ${item.soft404.signals.join(", ")}`
+      : "";
+
+// Same formula as the deep scan page: share of mapped URLs that answered OK
+const healthPercent = (stats: Pick<JobStats, "ok" | "mapped">) => (stats.mapped > 0 ? (stats.ok / stats.mapped) * 100 : 100);
+
+function brokenBySource(items: BrokenReportItem[]): string {
+  const groups = new Map<string, { item: BrokenReportItem; anchorText: string }[]>();
+  items.forEach((item) => {
+    linkSources(item).forEach((source) => {
+      const group = groups.get(source.page) ?? [];
+      group.push({ item, anchorText: source.context?.anchorText ?? "" });
+      groups.set(source.page, group);
+    });
+  });
+  if (groups.size === 0) return '<p class="empty">No broken links found.</p>';
+
+  // Pages with the most broken links first
+  return Array.from(groups)
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(
+      ([page, links]) => `<details open data-group>
+<summary>${page === "ROOT" ? "Start URL" : escapeHtml(page)} <span class="count">${links.length}</span></summary>
+<table><thead><tr><th>Status</th><th>Broken link</th><th>Anchor text</th><th>Issue</th></tr></thead><tbody>
+${links
+  .map(
+    ({ item, anchorText }) =>
+      `<tr data-filter="${filterText(page, item.brokenLink, anchorText)}" data-status="${item.status}"><td>${badge(item.status)}</td><td>${link(item.brokenLink)}${
+        item.redirectedTo ? `<div class="muted">→ ${escapeHtml(item.redirectChain?.finalUrl ?? item.redirectedTo)}</div>` : ""
+      }</td><td>${escapeHtml(anchorText)}</td><td class="muted">${escapeHtml(issueLabel(item))}</td></tr>`
+  )
+  .join("\n")}
+</tbody></table></details>`
+    )
+    .join("\n");
+}
+
+function redirectTable(redirects: RedirectReportItem[]): string {
+  if (redirects.length === 0) return '<p class="empty">No redirects found.</p>';
+  const rows = [...redirects]
+    .sort((a, b) => b.issues.length - a.issues.length)
+    .map(
+      (item) =>
+        `<tr data-filter="${filterText(item.url, item.chain.finalUrl, item.foundOnPage)}"><td>${link(item.url)}</td><td>${item.chain.hops
+          .map((hop) => `<div><b>${hop.statusCode}</b> → ${escapeHtml(hop.location)}</div>`)
+          .join("")}${item.chain.error ? `<div class="muted">${escapeHtml(fetchErrorLabel(item.chain.error))}</div>` : ""}</td><td>${item.issues
+          .map((issue) => `<span class="badge issue">${issue}</span>`)
+          .join(" ")}</td><td class="muted">${escapeHtml(item.foundOnPage)}</td></tr>`
+    )
+    .join("\n");
+  return `<table><thead><tr><th>URL</th><th>Chain</th><th>Issues</th><th>Found on</th></tr></thead><tbody>\n${rows}\n</tbody></table>`;
+}
+
+// Discovery tree: every page under the page that found it
+function siteTree(pages: PageInventoryItem[]): string {
+  const known = new Set(pages.map((page) => page.url));
+  const children = new Map<string | null, PageInventoryItem[]>();
+  pages.forEach((page) => {
+    const parent = page.parent && known.has(page.parent) && page.parent !== page.url ? page.parent : null;
+    const list = children.get(parent) ?? [];
+    list.push(page);
+    children.set(parent, list);
+  });
+
+  const render = (page: PageInventoryItem, seen: Set<string>): string => {
+    const below = seen.has(page.url) ? [] : (children.get(page.url) ?? []);
+    seen.add(page.url);
+    const label = `${badge(page.status)} ${link(page.url)}`;
+    const attributes = `data-url="${filterText(page.url)}" data-status="${page.status}"`;
+    if (below.length === 0) return `<li ${attributes}>${label}</li>`;
+    return `<li ${attributes}><details${page.depth < 1 ? " open" : ""}><summary>${label} <span class="count">${below.length}</span></summary><ul>${below
+      .map((child) => render(child, seen))
+      .join("")}</ul></details></li>`;
+  };
+
+  const roots = children.get(null) ?? [];
+  if (roots.length === 0) return '<p class="empty">No pages crawled.</p>';
+  const seen = new Set<string>();
+  return `<ul id="tree">${roots.map((page) => render(page, seen)).join("")}</ul>`;
+}
+
+const STYLE = `
+body{font:14px/1.5 system-ui,-apple-system,"Segoe UI",sans-serif;color:#1e293b;background:#f8fafc;margin:0;padding:24px}
+main{max-width:1200px;margin:0 auto}
+h1{font-size:22px;margin:0}h2{font-size:17px;margin:32px 0 12px}
+a{color:#4f46e5;text-decoration:none;word-break:break-all}a:hover{text-decoration:underline}
+.muted{color:#94a3b8;font-size:12px}.empty{color:#94a3b8;font-style:italic}
+.card{background:#fff;border:1px solid #e2e8f0;border-radius:10px;padding:16px}
+.health{display:flex;align-items:center;gap:16px;margin-top:16px}
+.bar{flex:1;height:10px;border-radius:5px;background:#ef4444;overflow:hidden}.bar div{height:100%;background:#10b981}
+.percent{font-size:28px;font-weight:700}
+.counts{display:grid;grid-template-columns:repeat(auto-fill,minmax(140px,1fr));gap:12px;margin-top:16px}
+.counts div{background:#fff;border:1px solid #e2e8f0;border-radius:10px;padding:12px}.counts b{display:block;font-size:22px}
+.filters{position:sticky;top:0;background:#f8fafc;padding:12px 0;display:flex;flex-wrap:wrap;gap:12px;align-items:center;border-bottom:1px solid #e2e8f0;z-index:1}
+.filters input[type=search]{flex:1;min-width:240px;padding:6px 10px;border:1px solid #cbd5e1;border-radius:6px}
+table{width:100%;border-collapse:collapse;background:#fff;font-size:13px}
+th{text-align:left;font-size:11px;text-transform:uppercase;color:#64748b;background:#f1f5f9;padding:8px}
+td{padding:8px;border-top:1px solid #f1f5f9;vertical-align:top}
+details{background:#fff;border:1px solid #e2e8f0;border-radius:8px;margin-bottom:8px}
+details>summary{padding:8px 12px;cursor:pointer;font-weight:600;word-break:break-all}
+.count{background:#e2e8f0;border-radius:9px;padding:0 7px;font-size:11px;margin-left:4px}
+.badge{display:inline-block;font-size:10px;font-weight:700;text-transform:uppercase;padding:1px 6px;border-radius:4px;background:#f1f5f9;color:#475569;white-space:nowrap}
+.badge.ok{background:#d1fae5;color:#047857}.badge.redirect{background:#dbeafe;color:#1d4ed8}
+.badge.broken,.badge.error{background:#fee2e2;color:#b91c1c}.badge.soft-404{background:#ffedd5;color:#c2410c}.badge.issue{background:#fef3c7;color:#b45309}
+#tree,#tree ul{list-style:none;padding-left:18px;margin:4px 0}#tree details{border:0;margin:0;background:none}#tree summary{padding:2px 0;font-weight:400}
+#tree li{padding:2px 0}
+[hidden]{display:none!important}
+`;
+
+// Rows (data-filter) match the text; rows and tree nodes (data-status) match the checked statuses.
+// A tree node stays visible when anything below it does.
+const SCRIPT = `
+const box = document.getElementById("filter");
+const toggles = Array.from(document.querySelectorAll("[data-status-toggle]"));
+function apply() {
+  const text = box.value.trim().toLowerCase();
+  const statuses = new Set(toggles.filter((t) => t.checked).map((t) => t.value));
+  const matches = (el, attribute) => (!text || el.getAttribute(attribute).includes(text)) && (!el.dataset.status || statuses.has(el.dataset.status));
+  document.querySelectorAll("[data-filter]").forEach((el) => (el.hidden = !matches(el, "data-filter")));
+  document.querySelectorAll("[data-group]").forEach((el) => (el.hidden = !el.querySelector("[data-filter]:not([hidden])")));
+  Array.from(document.querySelectorAll("#tree li")).reverse().forEach((li) => {
+    const below = Array.from(li.querySelectorAll(":scope > details > ul > li")).some((child) => !child.hidden);
+    li.hidden = !matches(li, "data-url") && !below;
+    if (text && below) li.querySelector(":scope > details").open = true;
+  });
+}
+box.addEventListener("input", apply);
+toggles.forEach((t) => t.addEventListener("change", apply));
+`;
+
+export function buildHtmlReport({ startUrl, crawledAt, generatedAt, state, stats, brokenLinks, redirects, pages }: HtmlReportInput): string {
+  const health = healthPercent(stats);
+  const statusCounts = (Object.keys(STATUS_LABELS) as LinkStatus[])
+    .map((status) => [status, pages.filter((page) => page.status === status).length] as const)
+    .filter(([, count]) => count > 0);
+  const extraCounts: [string, string][] = [
+    ...(stats.external > 0 ? [["External links broken", `${stats.externalBroken} / ${stats.external}`] as [string, string]] : []),
+    ...(stats.assets > 0 ? [["Assets broken", `${stats.assetsBroken} / ${stats.assets}`] as [string, string]] : []),
+  ];
+  const date = (time: number) => new Date(time).toISOString().replace("T", " ").slice(0, 16) + " UTC";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Link audit: ${escapeHtml(startUrl)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<main>
+<div class="card">
+<h1>Link audit: ${link(startUrl)}</h1>
+<div class="muted">Crawled ${date(crawledAt)} · report generated ${date(generatedAt)}${state === "completed" ? "" : ` · partial crawl (${escapeHtml(state)})`}</div>
+<div class="health"><span class="percent">${health.toFixed(1)}%</span><div class="bar"><div style="width:${health.toFixed(1)}%"></div></div><span class="muted">healthy (${stats.ok.toLocaleString("en")} of ${stats.mapped.toLocaleString("en")} URLs OK)</span></div>
+</div>
+<div class="counts">
+${statusCounts.map(([status, count]) => `<div>${badge(status)}<b>${count.toLocaleString("en")}</b></div>`).join("\n")}
+${extraCounts.map(([label, value]) => `<div><span class="muted">${label}</span><b>${value}</b></div>`).join("\n")}
+</div>
+
+<div class="filters">
+<input type="search" id="filter" placeholder="Filter by URL or anchor text">
+${statusCounts.map(([status]) => `<label><input type="checkbox" data-status-toggle value="${status}" checked> ${STATUS_LABELS[status]}</label>`).join("\n")}
+</div>
+
+<h2>Broken links by page (${brokenLinks.length.toLocaleString("en")})</h2>
+${brokenBySource(brokenLinks)}
+
+<h2>Redirect chains (${redirects.length.toLocaleString("en")})</h2>
+${redirectTable(redirects)}
+
+<h2>Site tree (${pages.length.toLocaleString("en")})</h2>
+${siteTree(pages)}
+</main>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
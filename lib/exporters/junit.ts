@@ -0,0 +1,110 @@
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { AssetReportItem, BrokenReportItem, ExternalReportItem, LinkStatus, PageInventoryItem } from "@/lib/crawler/types";
+import { issueLabel, linkSources } from "./report-tables";
+import { escapeXml } from "./xml";
+
+// --- JUNIT XML ---
+// For CI test reporters: one test suite per crawl, one test case per fetched URL, a failure per
+// broken one (with every page linking to it). URLs never fetched (past max pages) are left out.
+// Checked outbound links and assets get their own cases, classnames "<host>.external" and "<host>.assets".
+
+export interface JunitSuite {
+  startUrl: string;
+  // Crawl start, epoch ms
+  startedAt: number;
+  durationMs: number;
+  pages: PageInventoryItem[];
+  brokenLinks: BrokenReportItem[];
+  // Only when outbound links were checked
+  external?: ExternalReportItem[];
+  // Only when assets were audited
+  assets?: AssetReportItem[];
+}
+
+// "HTTP 4xx (404), linked from https://example.com/about (+2 more)"
+const withSources = (label: string, pages: string[]) =>
+  pages.length === 0 ? label : `${label}, linked from ${pages[0]}${pages.length > 1 ? ` (+${pages.length - 1} more)` : ""}`;
+
+const failureMessage = (page: PageInventoryItem, item: BrokenReportItem | undefined) => {
+  const label = (item && issueLabel(item)) ?? (page.status === "soft-404" ? "Soft 404" : `Broken (${page.status})`);
+  return withSources(label, item ? linkSources(item).map((source) => source.page) : page.parent ? [page.parent] : []);
+};
+
+const failureBody = (item: BrokenReportItem | undefined) => {
+  if (!item) return "";
+  return `Linked from:\n${linkSources(item)
+    .map((source) => `- ${source.page}${source.context?.anchorText ? ` ("${source.context.anchorText}")` : ""}`)
+    .join("\n")}`;
+};
+
+const testcaseXml = (classname: string, url: string, failure: { type: string; message: string; body: string } | null) => {
+  const open = `    <testcase classname="${classname}" name="${escapeXml(url)}" time="0">`;
+  if (!failure) return `${open}</testcase>`;
+  return `${open}\n      <failure type="${failure.type}" message="${escapeXml(failure.message)}">${escapeXml(failure.body)}</failure>\n    </testcase>`;
+};
+
+const checkedExternal = (suite: JunitSuite) => (suite.external ?? []).filter((item) => item.status !== "pending");
+const checkedAssets = (suite: JunitSuite) => (suite.assets ?? []).filter((item) => item.status !== "pending");
+
+// A case per outbound link or asset, failing with every page using it
+const resourceCaseXml = (classname: string, url: string, status: LinkStatus, label: string | null, pages: string[], verb: string) =>
+  testcaseXml(
+    classname,
+    url,
+    isBrokenStatus(status)
+      ? {
+          type: status,
+          message: withSources(label ?? `Broken (${status})`, pages),
+          body: `${verb}:\n${pages.map((page) => `- ${page}`).join("\n")}`,
+        }
+      : null
+  );
+
+const countCases = (suite: JunitSuite) => {
+  const fetched = suite.pages.filter((page) => page.status !== "pending");
+  const external = checkedExternal(suite);
+  const assets = checkedAssets(suite);
+  return {
+    tests: fetched.length + external.length + assets.length,
+    failures: [...fetched, ...external, ...assets].filter((entry) => isBrokenStatus(entry.status)).length,
+  };
+};
+
+function suiteXml(suite: JunitSuite): string {
+  const { startUrl, startedAt, durationMs, pages, brokenLinks } = suite;
+  const brokenByUrl = new Map(brokenLinks.map((item) => [item.brokenLink, item]));
+  const { tests, failures } = countCases(suite);
+  // Dotted like a class name, so reporters group the cases by site
+  const classname = escapeXml(new URL(startUrl).hostname);
+
+  const cases = [
+    ...pages
+      .filter((page) => page.status !== "pending")
+      .map((page) => {
+        if (!isBrokenStatus(page.status)) return testcaseXml(classname, page.url, null);
+        const item = brokenByUrl.get(page.url);
+        return testcaseXml(classname, page.url, { type: page.status, message: failureMessage(page, item), body: failureBody(item) });
+      }),
+    ...checkedExternal(suite).map((item) => resourceCaseXml(`${classname}.external`, item.url, item.status, item.label, item.foundOn, "Linked from")),
+    ...checkedAssets(suite).map((item) => resourceCaseXml(`${classname}.assets`, item.url, item.status, item.label, item.usedOn, "Used on")),
+  ];
+
+  return (
+    `  <testsuite name="${escapeXml(startUrl)}" tests="${tests}" failures="${failures}" errors="0" skipped="0" ` +
+    `timestamp="${new Date(startedAt).toISOString().slice(0, 19)}" time="${(durationMs / 1000).toFixed(3)}">\n` +
+    cases.join("\n") +
+    "\n  </testsuite>"
+  );
+}
+
+export function buildJunitXml(suites: JunitSuite[]): string {
+  const tests = suites.reduce((sum, suite) => sum + countCases(suite).tests, 0);
+  const failures = suites.reduce((sum, suite) => sum + countCases(suite).failures, 0);
+  const time = suites.reduce((sum, suite) => sum + suite.durationMs, 0) / 1000;
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="link-auditor" tests="${tests}" failures="${failures}" errors="0" time="${time.toFixed(3)}">\n` +
+    suites.map(suiteXml).join("\n") +
+    "\n</testsuites>\n"
+  );
+}
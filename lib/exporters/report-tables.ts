@@ -0,0 +1,90 @@
+import { fetchErrorLabel } from "@/lib/crawler/errors";
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { AssetReportItem, BrokenReportItem, ExternalReportItem, LinkSource, LinkStatus, PageInventoryItem } from "@/lib/crawler/types";
+
+// --- SPREADSHEET TABLES ---
+// The broken-link report and the page inventory as plain rows, shared by the CSV and XLSX writers.
+
+export type Cell = string | number | null;
+
+export interface Table {
+  name: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+// One sheet per status, in this order (empty ones are left out)
+export const STATUS_SHEETS: [LinkStatus, string][] = [
+  ["ok", "OK"],
+  ["redirect", "Redirects"],
+  ["broken", "Broken"],
+  ["soft-404", "Soft 404"],
+  ["error", "Errors"],
+  ["pending", "Not Crawled"],
+];
+
+// Why a link is reported: "HTTP 4xx (404)", "Timeout (ECONNABORTED, 3 attempts)", "Soft 404 (80%: matches-404-page)"
+export const issueLabel = (item: BrokenReportItem): string | null => {
+  if (item.error) return fetchErrorLabel(item.error);
+  if (item.soft404) return `Soft 404 (${Math.round(item.soft404.confidence * 100)}%: ${item.soft404.signals.join(", ")})`;
+  return null;
+};
+
+// Pages linking to a broken URL; reports imported from old saved states only know the discoverer
+export const linkSources = (item: BrokenReportItem): LinkSource[] =>
+  item.sources.length > 0 ? item.sources : [{ page: item.foundOnPage, ...(item.linkContext ? { context: item.linkContext } : {}) }];
+
+// One row per page linking to a broken URL, so the sheet can be filtered by source page
+export function brokenLinksTable(items: BrokenReportItem[]): Table {
+  const rows = items.flatMap((item) => {
+    return linkSources(item).map((source): Cell[] => [
+      item.brokenLink,
+      item.status,
+      issueLabel(item),
+      item.redirectChain?.finalUrl ?? item.redirectedTo,
+      source.page,
+      source.context?.anchorText ?? null,
+      item.sources.length,
+    ]);
+  });
+  return { name: "Broken Links", headers: ["Broken Link", "Status", "Issue", "Redirected To", "Source Page", "Anchor Text", "Linked From"], rows };
+}
+
+// Broken links plus broken outbound links and assets (the CLI's CSV), with a Type column telling them apart
+export function allBrokenTable(items: BrokenReportItem[], external: ExternalReportItem[] = [], assets: AssetReportItem[] = []): Table {
+  const links = brokenLinksTable(items);
+  const rows = [
+    ...links.rows.map((row) => [...row, "link"]),
+    ...external
+      .filter((item) => isBrokenStatus(item.status))
+      .flatMap((item) =>
+        item.foundOn.map((page): Cell[] => [item.url, item.status, item.label, item.finalUrl, page, null, item.foundOn.length, "external"])
+      ),
+    ...assets
+      .filter((item) => isBrokenStatus(item.status))
+      .flatMap((item) => item.usedOn.map((page): Cell[] => [item.url, item.status, item.label, null, page, null, item.usedOn.length, item.kind])),
+  ];
+  return { name: links.name, headers: [...links.headers, "Type"], rows };
+}
+
+export function pageInventoryTable(pages: PageInventoryItem[], name = "All Pages"): Table {
+  return {
+    name,
+    headers: ["URL", "Status", "Depth", "Parent", "Links", "Redirected To", "Content Type"],
+    rows: pages.map((page) => [page.url, page.status, page.depth, page.parent, page.links, page.redirectedTo, page.contentType]),
+  };
+}
+
+// Broken links, every page, then the pages split by status
+export function crawlReportTables(brokenLinks: BrokenReportItem[], pages: PageInventoryItem[]): Table[] {
+  return [
+    brokenLinksTable(brokenLinks),
+    pageInventoryTable(pages),
+    ...STATUS_SHEETS.map(([status, name]) =>
+      pageInventoryTable(
+        pages.filter((page) => page.status === status),
+        name
+      )
+    ).filter((table) => table.rows.length > 0),
+  ];
+}
@@ -0,0 +1,110 @@
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type { AssetReportItem, BrokenReportItem, ExternalReportItem, LinkStatus } from "@/lib/crawler/types";
+import { issueLabel, linkSources } from "./report-tables";
+
+// --- SARIF 2.1.0 ---
+// For code scanning dashboards: one run per crawl, one result per broken link and page linking to it,
+// located at that page (the CSS selector of the link as its logical location).
+
+export interface SarifCrawl {
+  startUrl: string;
+  brokenLinks: BrokenReportItem[];
+  // Only when outbound links were checked
+  external?: ExternalReportItem[];
+  // Only when assets were audited
+  assets?: AssetReportItem[];
+}
+
+type RuleId = "broken-link" | "soft-404" | "link-error" | "broken-external-link" | "broken-asset";
+
+const RULES: { id: RuleId; name: string; description: string }[] = [
+  { id: "broken-link", name: "BrokenLink", description: "A link on the page answers with an HTTP error (4xx/5xx)." },
+  { id: "soft-404", name: "Soft404", description: "A link on the page answers 200 but the target looks like a missing page." },
+  { id: "link-error", name: "LinkError", description: "A link on the page could not be fetched (DNS, timeout, TLS, redirect loop...)." },
+  { id: "broken-external-link", name: "BrokenExternalLink", description: "An outbound link on the page is broken." },
+  { id: "broken-asset", name: "BrokenAsset", description: "An image, script, stylesheet, media file or download used by the page is broken." },
+];
+
+const ruleFor = (status: LinkStatus): RuleId => (status === "soft-404" ? "soft-404" : status === "error" ? "link-error" : "broken-link");
+
+// Soft 404s are guesses, so they don't fail a gate set to "error"
+const levelFor = (status: LinkStatus) => (status === "soft-404" ? "warning" : "error");
+
+const result = (
+  ruleId: RuleId,
+  level: string,
+  target: string,
+  label: string,
+  page: string,
+  extra: { selector?: string; properties?: Record<string, unknown> } = {}
+) => ({
+  ruleId,
+  ruleIndex: RULES.findIndex((rule) => rule.id === ruleId),
+  level,
+  message: { text: `Broken link to ${target}: ${label}` },
+  locations: [
+    {
+      physicalLocation: { artifactLocation: { uri: page } },
+      ...(extra.selector ? { logicalLocations: [{ fullyQualifiedName: extra.selector, kind: "element" }] } : {}),
+    },
+  ],
+  // Stable across crawls, so dashboards can tell new results from known ones
+  partialFingerprints: { "linkTarget/v1": `${page} -> ${target}` },
+  properties: { target, ...extra.properties },
+});
+
+function runJson({ startUrl, brokenLinks, external = [], assets = [] }: SarifCrawl) {
+  const internal = brokenLinks.flatMap((item) =>
+    linkSources(item).map((source) =>
+      result(
+        ruleFor(item.status),
+        levelFor(item.status),
+        item.brokenLink,
+        issueLabel(item) ?? `Broken (${item.status})`,
+        // The start URL itself is broken
+        source.page === "ROOT" ? startUrl : source.page,
+        {
+          selector: source.context?.selector,
+          properties: {
+            status: item.status,
+            statusCode: item.error?.statusCode ?? null,
+            ...(source.context ? { anchorText: source.context.anchorText, heading: source.context.heading } : {}),
+          },
+        }
+      )
+    )
+  );
+  const outbound = external
+    .filter((item) => isBrokenStatus(item.status))
+    .flatMap((item) =>
+      item.foundOn.map((page) =>
+        result("broken-external-link", levelFor(item.status), item.url, item.label ?? `Broken (${item.status})`, page, {
+          properties: { status: item.status, statusCode: item.statusCode },
+        })
+      )
+    );
+  const resources = assets
+    .filter((item) => isBrokenStatus(item.status))
+    .flatMap((item) =>
+      item.usedOn.map((page) =>
+        result("broken-asset", levelFor(item.status), item.url, item.label ?? `Broken (${item.status})`, page, {
+          properties: { status: item.status, statusCode: item.statusCode, kind: item.kind },
+        })
+      )
+    );
+
+  return {
+    tool: {
+      driver: {
+        name: "link-auditor",
+        rules: RULES.map(({ id, name, description }) => ({ id, name, shortDescription: { text: description } })),
+      },
+    },
+    automationDetails: { id: `link-auditor/${new URL(startUrl).hostname}/` },
+    results: [...internal, ...outbound, ...resources],
+  };
+}
+
+export function buildSarif(crawls: SarifCrawl[]): string {
+  return `${JSON.stringify({ $schema: "https://json.schemastore.org/sarif-2.1.0.json", version: "2.1.0", runs: crawls.map(runJson) }, null, 2)}\n`;
+}
@@ -0,0 +1,66 @@
+import { escapeXml } from "./xml";
+
+// --- SITEMAP.XML WRITER ---
+// sitemaps.org limits: 50,000 URLs and 50MB (uncompressed) per file. Past that the URLs are split
+// into sitemap-1.xml, sitemap-2.xml, ... and sitemap.xml becomes a sitemap index pointing at them.
+
+export const SITEMAP_MAX_URLS = 50000;
+const SITEMAP_MAX_BYTES = 50 * 1024 * 1024;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>\n';
+const URLSET_OPEN = '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+const URLSET_CLOSE = "</urlset>\n";
+
+export interface SitemapEntry {
+  url: string;
+  // ISO date; omitted from the file when null
+  lastModified?: string | null;
+}
+
+export interface SitemapFile {
+  name: string;
+  content: string;
+}
+
+const urlElement = ({ url, lastModified }: SitemapEntry) =>
+  `  <url><loc>${escapeXml(url)}</loc>${lastModified ? `<lastmod>${lastModified}</lastmod>` : ""}</url>\n`;
+
+// First file is always "sitemap.xml" (the one to submit); any others are its parts.
+// baseUrl: where the parts will be hosted, e.g. "https://coloringonly.com"
+export function buildSitemapFiles(entries: SitemapEntry[], baseUrl: string): SitemapFile[] {
+  const chunks: { body: string; lastModified: string | null }[] = [];
+  const fixedBytes = Buffer.byteLength(XML_HEADER + URLSET_OPEN + URLSET_CLOSE);
+  let current = { body: "", count: 0, bytes: fixedBytes, lastModified: null as string | null };
+
+  entries.forEach((entry) => {
+    const element = urlElement(entry);
+    const bytes = Buffer.byteLength(element);
+    if (current.count > 0 && (current.count >= SITEMAP_MAX_URLS || current.bytes + bytes > SITEMAP_MAX_BYTES)) {
+      chunks.push(current);
+      current = { body: "", count: 0, bytes: fixedBytes, lastModified: null };
+    }
+    current.body += element;
+    current.count++;
+    current.bytes += bytes;
+    if (entry.lastModified && (!current.lastModified || entry.lastModified > current.lastModified)) current.lastModified = entry.lastModified;
+  });
+  chunks.push(current);
+
+  const urlset = (body: string) => XML_HEADER + URLSET_OPEN + body + URLSET_CLOSE;
+  if (chunks.length === 1) return [{ name: "sitemap.xml", content: urlset(chunks[0].body) }];
+
+  const base = baseUrl.replace(/\/+$/, "");
+  const parts = chunks.map((chunk, index) => ({ name: `sitemap-${index + 1}.xml`, content: urlset(chunk.body), lastModified: chunk.lastModified }));
+  const index =
+    XML_HEADER +
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+    parts
+      .map(
+        (part) =>
+          `  <sitemap><loc>${escapeXml(`${base}/${part.name}`)}</loc>${part.lastModified ? `<lastmod>${part.lastModified}</lastmod>` : ""}</sitemap>\n`
+      )
+      .join("") +
+    "</sitemapindex>\n";
+
+  return [{ name: "sitemap.xml", content: index }, ...parts.map(({ name, content }) => ({ name, content }))];
+}
@@ -0,0 +1,194 @@
+import { deflateRawSync } from "zlib";
+import type { Cell, Table } from "./report-tables";
+import { escapeXml } from "./xml";
+
+// --- XLSX WRITER ---
+// Just enough SpreadsheetML for report tables: one worksheet per table, a bold frozen header row,
+// inline strings and numbers, zipped with Node's zlib.
+
+// Excel limits
+const MAX_SHEET_NAME = 31;
+const MAX_CELL_LENGTH = 32767;
+const MAX_COLUMN_WIDTH = 80;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26));
+
+const cellXml = (value: Cell, ref: string, style: number) => {
+  if (value === null || value === "") return "";
+  const s = style ? ` s="${style}"` : "";
+  if (typeof value === "number") return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+};
+
+function worksheetXml({ headers, rows }: Table): string {
+  const widths = headers.map((header, column) =>
+    Math.min(MAX_COLUMN_WIDTH, rows.reduce((widest, row) => Math.max(widest, String(row[column] ?? "").length), header.length) + 2)
+  );
+  const rowXml = (cells: Cell[], index: number, style: number) =>
+    `<row r="${index + 1}">${cells.map((value, column) => cellXml(value, `${columnName(column)}${index + 1}`, style)).join("")}</row>`;
+
+  return (
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths.map((width, column) => `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`).join("")}</cols>` +
+    `<sheetData>${[rowXml(headers, 0, 1), ...rows.map((row, index) => rowXml(row, index + 1, 0))].join("")}</sheetData>` +
+    "</worksheet>"
+  );
+}
+
+// Unique, at most 31 characters, none of : \ / ? * [ ]
+function sheetNames(tables: Table[]): string[] {
+  const used = new Set<string>();
+  return tables.map(({ name }) => {
+    const base = name.replace(/[:\\/?*[\]]/g, " ").slice(0, MAX_SHEET_NAME) || "Sheet";
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) unique = `${base.slice(0, MAX_SHEET_NAME - String(n).length - 1)} ${n}`;
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+export function buildXlsx(tables: Table[]): Buffer {
+  const names = sheetNames(tables);
+  const sheets = names.map((name, index) => ({ name, path: `worksheets/sheet${index + 1}.xml`, id: index + 1 }));
+
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map(
+            (sheet) =>
+              `<Override PartName="/xl/${sheet.path}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        XML_HEADER +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${sheets.map((sheet) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join("")}</sheets>` +
+        "</workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        XML_HEADER +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (sheet) =>
+              `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="${sheet.path}"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      // Style 0 = default, 1 = bold (header row)
+      name: "xl/styles.xml",
+      content:
+        XML_HEADER +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        "</styleSheet>",
+    },
+    ...tables.map((table, index) => ({ name: `xl/${sheets[index].path}`, content: worksheetXml(table) })),
+  ]);
+}
+
+// --- ZIP ---
+// Deflated entries, no ZIP64 (fine below 4GB), fixed timestamp.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// 1980-01-01 00:00 in DOS date/time
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+function zip(files: { name: string; content: string }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = Buffer.from(file.name, "utf8");
+    const data = Buffer.from(file.content, "utf8");
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
@@ -0,0 +1,9 @@
+// Text and attribute values. Control characters are not allowed in XML 1.0, so they are dropped.
+export const escapeXml = (value: string) =>
+  value
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
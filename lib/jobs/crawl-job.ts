@@ -0,0 +1,645 @@
+import { checkAssets } from "@/lib/crawler/assets";
+import { toFetchError } from "@/lib/crawler/errors";
+import { ExternalLinkChecker } from "@/lib/crawler/external";
+import { CrawlFrontier } from "@/lib/crawler/frontier";
+import { HostScheduler, politenessOptions } from "@/lib/crawler/host-scheduler";
+import { languageStats, validateHreflang } from "@/lib/crawler/hreflang";
+import { analyzeIndexing, isDuplicate, isNoindex } from "@/lib/crawler/indexing";
+import { crawlPage } from "@/lib/crawler/page";
+import { analyzeRedirectChain, DEFAULT_REDIRECT_HOP_LIMIT, type HopGate } from "@/lib/crawler/redirects";
+import { retryOptions, type RetryOptions } from "@/lib/crawler/retry";
+import { ALLOW_ALL, DEFAULT_ROBOTS_USER_AGENT, getRobotsPolicyForUrl, type RobotsPolicy } from "@/lib/crawler/robots";
+import { fetchSitemapUrls, findSitemaps } from "@/lib/crawler/sitemap";
+import { isBrokenStatus, isCrawlableStatus } from "@/lib/crawler/status";
+import type {
+  AssetReportItem,
+  CrawlerState,
+  ExternalReportItem,
+  FetchError,
+  HreflangAlternate,
+  HreflangReport,
+  IndexingReport,
+  LiveScanItem,
+  PageAsset,
+  PageCrawlResult,
+  PageInventoryItem,
+  QueueItem,
+  RedirectReportItem,
+  RuleExcludedLink,
+  SitemapCoverage,
+  UrlRuleReportItem,
+} from "@/lib/crawler/types";
+import { createCanonicalizer, type NormalizationRules } from "@/lib/crawler/url";
+import {
+  checkUrlRules,
+  DEFAULT_PROFILE_ID,
+  getNormalizationRules,
+  getProfile,
+  getUrlRules,
+  isAllowedHost,
+  isInScope,
+  withLanguages,
+  type SiteProfile,
+} from "@/lib/profiles";
+import type { CrawlRecord, CrawlStore, DiscoveredLink, PageLink } from "@/lib/storage/crawl-store";
+import { JobEventLog } from "./event-log";
+import type { CrawlJobOptions, JobSnapshot, JobState, SkippedUrl, SnapshotInclude } from "./types";
+
+const FEED_SIZE = 50;
+// Throttle for "stats" events (state changes always send one)
+const STATS_EVENT_MS = 1000;
+// Excluded URLs listed per rule in the rule report
+const RULE_SAMPLES = 10;
+
+// --- SERVER-SIDE CRAWL JOB ---
+// Owns the queue, the visited set and the worker pool that used to live in React refs,
+// so a crawl keeps running in the Node process after the browser tab is closed.
+// Every result is written through to the CrawlStore; the in-memory sets are only a cache.
+export class CrawlJob {
+  readonly id: string;
+  readonly options: CrawlJobOptions;
+  readonly profile: SiteProfile;
+  readonly createdAt: number;
+  private updatedAt: number;
+  private state: JobState;
+
+  readonly normalization: NormalizationRules;
+  private frontier: CrawlFrontier;
+  private feed: LiveScanItem[] = [];
+  // Live events for /api/jobs/:id/events
+  readonly events = new JobEventLog();
+  private statsEventAt = 0;
+
+  private activeWorkers = 0;
+  private skippedCount: number;
+  // Per-host concurrency and request spacing (robots.txt Crawl-delay included), adapted to how the host copes
+  private scheduler: HostScheduler;
+  // Sitemap seeding in progress (the crawl can't complete until it's done)
+  private seeding = false;
+  private sitemapErrors: string[] = [];
+  private retry: RetryOptions;
+  // Incremental crawls: the earlier crawl pages are revalidated against (null = fetch everything)
+  private baselineId: string | null = null;
+  private externalChecker: ExternalLinkChecker;
+  // Outbound link checks and asset re-checks running outside the worker pool (the crawl can't complete until they're done)
+  private backgroundChecks = 0;
+
+  private constructor(
+    private store: CrawlStore,
+    record: CrawlRecord
+  ) {
+    this.id = record.id;
+    this.options = record.options;
+    // Language folders picked for this crawl are let through
+    this.profile = withLanguages(getProfile(record.options.profile ?? DEFAULT_PROFILE_ID), record.options.languages);
+    this.createdAt = record.createdAt;
+    this.updatedAt = record.updatedAt;
+    this.skippedCount = record.skipped;
+    // A job that was running when the process died comes back paused
+    this.state = record.state === "running" ? "paused" : record.state;
+
+    this.retry = retryOptions(this.options);
+    this.scheduler = new HostScheduler(politenessOptions(this.options));
+
+    // A baseline that didn't collect what this crawl needs can't stand in for a fresh parse
+    // (nor one whose stored links left out a language folder this crawl takes in)
+    const baseline = this.options.incrementalFrom ? store.getCrawl(this.options.incrementalFrom) : undefined;
+    if (
+      baseline &&
+      (!this.options.checkExternal || baseline.options.checkExternal) &&
+      (!this.options.checkAssets || baseline.options.checkAssets) &&
+      (this.options.languages ?? []).every((language) => baseline.options.languages?.includes(language))
+    ) {
+      this.baselineId = baseline.id;
+    }
+    this.externalChecker = new ExternalLinkChecker(this.retry);
+
+    this.normalization = getNormalizationRules(this.profile);
+    this.frontier = new CrawlFrontier(createCanonicalizer(this.normalization), this.options.strategy);
+    this.frontier.restore(store.getPages(record.id), store.getQueue(record.id));
+  }
+
+  static create(store: CrawlStore, id: string, options: CrawlJobOptions, resumeFrom?: CrawlerState): CrawlJob {
+    // Pin the baseline now, so resuming later doesn't pick this crawl itself
+    if (options.incremental && !options.incrementalFrom) {
+      const baseline = store.findLatestCrawl(options.startUrl, options.profile);
+      if (baseline) options = { ...options, incrementalFrom: baseline.id };
+    }
+    const canonicalize = createCanonicalizer(getNormalizationRules(getProfile(options.profile ?? DEFAULT_PROFILE_ID)));
+    store.createCrawl(id, options, "paused");
+    if (resumeFrom) {
+      store.importState(id, resumeFrom, canonicalize);
+    } else {
+      store.addPendingPage(id, canonicalize(options.startUrl), { url: options.startUrl, parent: null, depth: 0 });
+    }
+    return CrawlJob.load(store, id)!;
+  }
+
+  static load(store: CrawlStore, id: string): CrawlJob | undefined {
+    const record = store.getCrawl(id);
+    return record ? new CrawlJob(store, record) : undefined;
+  }
+
+  // --- CONTROLS ---
+  start() {
+    this.resume();
+  }
+
+  pause() {
+    if (this.state !== "running") return;
+    this.setState("paused");
+  }
+
+  resume() {
+    if (this.state !== "paused") return;
+    this.setState("running");
+
+    // Read the sitemap once (its URL set is stored, so later resumes skip this): the sitemap and indexing
+    // reports compare against it whether or not it seeds the queue
+    if (!this.seeding && !this.store.hasSitemapUrls(this.id)) {
+      this.loadSitemap()
+        .catch((error) => {
+          this.sitemapErrors = [(error as Error).message];
+        })
+        .finally(() => this.pump());
+    }
+    // Outbound links found before a restart that never got their check
+    if (this.options.checkExternal) {
+      this.store.getUncheckedExternalLinks(this.id).forEach((link) => this.checkExternal(link));
+    }
+    const uncheckedAssets = this.options.checkAssets ? this.store.getUncheckedAssets(this.id) : [];
+    if (uncheckedAssets.length > 0) this.trackBackgroundCheck(this.checkPageAssets(uncheckedAssets));
+    this.pump();
+  }
+
+  cancel() {
+    if (this.state === "cancelled" || this.state === "completed") return;
+    this.setState("cancelled");
+  }
+
+  getState(): JobState {
+    return this.state;
+  }
+
+  // --- VIEWS ---
+  snapshot({ include = [] }: { include?: SnapshotInclude[] } = {}): JobSnapshot {
+    return {
+      id: this.id,
+      state: this.state,
+      options: this.options,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      normalization: this.normalization,
+      activeWorkers: this.activeWorkers,
+      stats: { ...this.store.getStats(this.id), skipped: this.skippedCount },
+      hostRates: this.scheduler.rates(),
+      feed: this.feed,
+      brokenLinks: this.store.getBrokenLinks(this.id),
+      ...(include.includes("siteMap") ? { siteMap: this.store.getSiteMap(this.id) } : {}),
+      ...(include.includes("results") ? { results: this.store.getCrawlResults(this.id) } : {}),
+      ...(include.includes("skipped") ? { skippedUrls: this.store.getSkippedUrls(this.id) } : {}),
+    };
+  }
+
+  // What a viewer needs to redraw its counters
+  liveStatus(): Pick<JobSnapshot, "state" | "activeWorkers" | "stats"> {
+    return { state: this.state, activeWorkers: this.activeWorkers, stats: { ...this.store.getStats(this.id), skipped: this.skippedCount } };
+  }
+
+  exportState(): CrawlerState {
+    return this.store.exportState(this.id);
+  }
+
+  assetReport(): AssetReportItem[] {
+    return this.store.getAssets(this.id);
+  }
+
+  externalReport(): ExternalReportItem[] {
+    return this.store.getExternalLinks(this.id);
+  }
+
+  redirectReport(): RedirectReportItem[] {
+    const hopLimit = this.options.redirectHopLimit ?? DEFAULT_REDIRECT_HOP_LIMIT;
+    return this.store.getRedirectChains(this.id).map((item) => ({ ...item, issues: analyzeRedirectChain(item.chain, hopLimit) }));
+  }
+
+  // The profile's URL rules in the order they are checked, with how many URLs each kept out
+  ruleReport(): UrlRuleReportItem[] {
+    const hits = this.store.getRuleHits(this.id, RULE_SAMPLES);
+    const rules = getUrlRules(this.profile);
+    const report: UrlRuleReportItem[] = [...rules.url, ...rules.response].map(({ label, action, matcher }) => ({
+      label,
+      action,
+      matcher,
+      hits: hits.get(label)?.hits ?? 0,
+      samples: hits.get(label)?.samples ?? [],
+    }));
+    // Rules edited out of the profile since
+    hits.forEach((hit, label) => {
+      if (!report.some((item) => item.label === label)) report.push({ label, action: "exclude", matcher: null, ...hit });
+    });
+    return report;
+  }
+
+  // hreflang problems across the crawled pages, and how each language fared
+  hreflangReport(): HreflangReport {
+    const pages = this.store.getHreflangPages(this.id);
+    return {
+      pagesWithAlternates: pages.filter((page) => page.alternates.length > 0).length,
+      issues: validateHreflang(pages),
+      languages: languageStats(pages, [...this.profile.excludedLanguagePrefixes, ...(this.options.languages ?? [])]),
+    };
+  }
+
+  // Canonical problems, and noindex pages still linked from a menu or listed in the sitemap
+  indexingReport(): IndexingReport {
+    const pages = this.store.getIndexingPages(this.id);
+    return {
+      duplicates: pages.filter(isDuplicate).map((page) => ({ url: page.url, canonical: page.canonical! })),
+      noindex: pages.filter((page) => isNoindex(page.robots)).map((page) => page.url),
+      issues: analyzeIndexing(pages),
+    };
+  }
+
+  pageInventory(): PageInventoryItem[] {
+    return this.store.getPageInventory(this.id);
+  }
+
+  sitemapEntries(): { url: string; lastModified: string | null }[] {
+    return this.store.getSitemapEntries(this.id);
+  }
+
+  sitemapCoverage(): SitemapCoverage {
+    return {
+      ...this.store.getSitemapCoverage(this.id, this.frontier.canonicalize(this.options.startUrl)),
+      errors: this.sitemapErrors,
+    };
+  }
+
+  // --- WORKER POOL ---
+  // Pages in flight count against maxPages: visitedCount only goes up once a page is done
+  private get pagesStarted(): number {
+    return this.frontier.visitedCount + this.activeWorkers;
+  }
+
+  private pump() {
+    while (this.state === "running" && this.activeWorkers < this.options.concurrency && this.pagesStarted < this.options.maxPages) {
+      const item = this.frontier.next();
+      if (!item) break;
+
+      this.activeWorkers++;
+      this.process(item)
+        .catch((error) => this.failPage(item, error))
+        .finally(() => {
+          this.activeWorkers--;
+          this.pump();
+        });
+    }
+
+    if (this.state === "running" && this.activeWorkers === 0 && !this.seeding && this.backgroundChecks === 0) {
+      if (this.frontier.queued === 0 || this.pagesStarted >= this.options.maxPages) {
+        this.setState("completed");
+      }
+    }
+  }
+
+  // A worker that threw (a store write, a parser bug) still settles its page, as an error, so the crawl can finish
+  private failPage(item: QueueItem, thrown: unknown) {
+    if (this.state === "cancelled" || this.frontier.isVisited(item.url)) return;
+    const error = toFetchError(thrown);
+    try {
+      this.store.savePageResult(
+        this.id,
+        this.frontier.canonicalize(item.url),
+        {
+          url: item.url,
+          status: "error",
+          parent: item.parent,
+          depth: item.depth,
+          isLeaf: true,
+          redirectLocation: null,
+          redirectChain: null,
+          soft404: null,
+          error,
+          contentType: null,
+          lastModified: null,
+          etag: null,
+          notModified: false,
+          indexing: null,
+        },
+        [],
+        []
+      );
+    } catch {
+      // The store itself is failing; the page is still marked visited so the queue drains
+    }
+    this.frontier.markVisited(item.url);
+    this.updatedAt = Date.now();
+    this.events.append({ type: "broken-link", url: item.url, status: "error", foundOnPage: item.parent ?? "ROOT", error });
+    this.emitStats();
+  }
+
+  private async process(item: QueueItem) {
+    const currentKey = this.frontier.canonicalize(item.url);
+
+    // 0. ROBOTS.TXT (catches the start URL and resumed queues; new links are checked at discovery)
+    const policy = await this.robotsPolicy(item.url);
+    if (!policy.isAllowed(item.url) && !policy.error) {
+      if (this.state !== "cancelled") this.store.skipPendingPage(this.id, currentKey, { url: item.url, reason: "robots", source: item.parent });
+      return;
+    }
+
+    const cached = this.baselineId ? this.store.getCachedPage(this.baselineId, currentKey) : undefined;
+
+    let data: PageCrawlResult;
+    if (policy.error) {
+      // robots.txt is down: the page isn't fetched, and shows up as an error instead of silently vanishing
+      data = { url: item.url, status: "error", redirectLocation: null, error: policy.error, links: [], isLeaf: true };
+    } else {
+      const release = await this.scheduler.acquire(item.url, policy.crawlDelay);
+      if (this.state !== "cancelled") this.events.append({ type: "page-started", url: item.url, depth: item.depth });
+      try {
+        data = await crawlPage(item.url, this.profile, {
+          collectExternal: this.options.checkExternal,
+          collectAssets: this.options.checkAssets,
+          retry: this.retry,
+          validators: cached?.validators,
+          redirectGate: this.redirectGate(release),
+        });
+      } catch (error) {
+        data = { url: item.url, status: "error", redirectLocation: null, error: toFetchError(error), links: [], isLeaf: true };
+      }
+      release(data.error);
+    }
+
+    // A content-type rule keeps the page out of the crawl altogether
+    if (data.excludedByRule) {
+      if (this.state !== "cancelled") {
+        this.store.skipPendingPage(this.id, currentKey, { url: item.url, reason: "rule", rule: data.excludedByRule, source: item.parent });
+      }
+      return;
+    }
+
+    // 304: the page is what the baseline saw, so are its links (new validators, if the server sent any)
+    if (data.notModified && cached) {
+      data = { ...cached.result, url: item.url, etag: data.etag, lastModified: data.lastModified, notModified: true };
+    }
+
+    const willQueue = isCrawlableStatus(data.status) && !data.isLeaf && item.depth < this.options.maxDepth;
+    const alternates = (data.alternates ?? []).map((alternate) => ({ ...alternate, key: this.frontier.canonicalize(alternate.url) }));
+    const translations = this.translationsOf(alternates, currentKey);
+    const canonical = data.indexing?.canonical ?? null;
+    const canonicalKey = canonical ? this.frontier.canonicalize(canonical) : null;
+    // A duplicate of another in-scope URL (its canonical) is deduplicated against it
+    const duplicateOf = canonical && canonicalKey !== currentKey && isInScope(this.profile, new URL(canonical)) ? canonical : null;
+    // Menus are noise for link reports, but the pages in them still get crawled (a noindex page in a menu is an issue)
+    const menuLinks = item.depth < this.options.maxDepth ? (data.navigationLinks ?? []).filter((url) => isInScope(this.profile, new URL(url))) : [];
+    const blocked = await this.blockedByRobots([
+      ...(willQueue ? data.links : []),
+      ...translations.urls,
+      ...(duplicateOf ? [duplicateOf] : []),
+      ...menuLinks,
+    ]);
+    const deduplicated = duplicateOf !== null && !blocked.has(duplicateOf);
+
+    // A cancelled job keeps whatever it had; late results are dropped
+    if (this.state === "cancelled") return;
+
+    const scanned: LiveScanItem = { url: item.url, foundCount: data.links.length, status: data.status, depth: item.depth, isLeaf: data.isLeaf };
+    this.feed = [scanned, ...this.feed].slice(0, FEED_SIZE);
+
+    // 1. DISCOVERY & DEDUPLICATION
+    const links: PageLink[] = [];
+    const newItems: QueueItem[] = [];
+    const robotsSkipped: DiscoveredLink[] = [];
+    if (isCrawlableStatus(data.status) && !data.isLeaf) {
+      data.links.forEach((rawLink, index) => {
+        const context = data.linkContexts?.[index];
+        links.push({ key: this.frontier.canonicalize(rawLink), url: rawLink, ...(context ? { context } : {}) });
+
+        // The depth breaker: keep the edge, but don't queue past MAX_DEPTH (nor from a duplicate: its canonical's links count)
+        if (item.depth >= this.options.maxDepth || deduplicated) return;
+
+        if (blocked.has(rawLink)) {
+          robotsSkipped.push({ key: this.frontier.canonicalize(rawLink), url: rawLink });
+          return;
+        }
+        if (!this.frontier.claim(rawLink)) {
+          this.skippedCount++;
+          return;
+        }
+        newItems.push({ url: rawLink, parent: item.url, depth: item.depth + 1 });
+      });
+    }
+    // Translations sit beside the page, not below it: same depth, queued even from leaf pages and at MAX_DEPTH
+    translations.urls.forEach((url) => {
+      if (blocked.has(url)) robotsSkipped.push({ key: this.frontier.canonicalize(url), url });
+      else if (this.frontier.claim(url)) newItems.push({ url, parent: item.url, depth: item.depth });
+    });
+    // The canonical takes the duplicate's place in the crawl, at its depth (unless it is already known)
+    if (duplicateOf) {
+      if (!deduplicated) robotsSkipped.push({ key: canonicalKey!, url: duplicateOf });
+      else if (this.frontier.claim(duplicateOf)) newItems.push({ url: duplicateOf, parent: item.url, depth: item.depth });
+    }
+    // No edges: the same menu is on every page
+    menuLinks.forEach((url) => {
+      if (!blocked.has(url) && this.frontier.claim(url)) newItems.push({ url, parent: item.url, depth: item.depth + 1 });
+    });
+    this.frontier.enqueue(newItems);
+
+    // 2. PERSIST PAGE + EDGES
+    this.store.savePageResult(
+      this.id,
+      currentKey,
+      {
+        url: item.url,
+        status: data.status,
+        parent: item.parent,
+        depth: item.depth,
+        isLeaf: data.isLeaf,
+        redirectLocation: data.redirectLocation,
+        redirectChain: data.redirectChain ?? null,
+        soft404: data.soft404 ?? null,
+        error: data.error ?? null,
+        contentType: data.contentType ?? null,
+        lastModified: data.lastModified ?? null,
+        etag: data.etag ?? null,
+        notModified: data.notModified ?? false,
+        indexing: data.indexing ? { ...data.indexing, canonicalKey } : null,
+      },
+      links,
+      newItems.map((queued) => ({ key: this.frontier.canonicalize(queued.url), url: queued.url, depth: queued.depth }))
+    );
+    this.store.saveAlternates(this.id, currentKey, alternates);
+    this.store.addNavigationLinks(
+      this.id,
+      item.url,
+      (data.navigationLinks ?? []).map((url) => ({ key: this.frontier.canonicalize(url), url }))
+    );
+    // Rule exclusions are keyed by the exact URL: the canonical key may drop the query string the rule matched
+    this.store.addSkippedUrls(this.id, [
+      ...robotsSkipped.map((link) => ({ ...link, reason: "robots" as const, source: item.url })),
+      ...[...(data.ruleExcludedLinks ?? []), ...translations.excluded].map((link) => ({
+        key: link.url,
+        ...link,
+        reason: "rule" as const,
+        source: item.url,
+      })),
+    ]);
+    if (data.externalLinks) {
+      // crawlPage already keyed them (URL minus fragment)
+      const fresh = this.store.addExternalLinks(
+        this.id,
+        item.url,
+        data.externalLinks.map((url) => ({ key: url, url }))
+      );
+      fresh.forEach((link) => this.checkExternal(link));
+    }
+    this.frontier.markVisited(item.url);
+    this.updatedAt = Date.now();
+    this.store.updateCrawl(this.id, { skipped: this.skippedCount });
+
+    this.events.append({ type: "page-finished", ...scanned, queued: newItems.length, notModified: data.notModified ?? false });
+    if (isBrokenStatus(data.status)) {
+      this.events.append({
+        type: "broken-link",
+        url: item.url,
+        status: data.status,
+        foundOnPage: item.parent ?? "ROOT",
+        ...(data.error ? { error: data.error } : {}),
+        ...(data.soft404 ? { soft404: data.soft404 } : {}),
+      });
+    }
+    this.emitStats();
+
+    // 3. ASSET AUDIT (inside the worker, so it shares the crawl's concurrency)
+    if (data.assets) await this.checkPageAssets(this.store.addAssets(this.id, item.url, data.assets));
+  }
+
+  // --- HREFLANG ---
+  // Alternates worth queueing (internal, let through by the URL rules) and those a rule keeps out
+  private translationsOf(alternates: (HreflangAlternate & { key: string })[], pageKey: string): { urls: string[]; excluded: RuleExcludedLink[] } {
+    const urls: string[] = [];
+    const excluded: RuleExcludedLink[] = [];
+    alternates.forEach(({ url, key }) => {
+      const parsed = new URL(url);
+      if (key === pageKey || !isAllowedHost(this.profile, parsed.hostname)) return;
+      const verdict = checkUrlRules(this.profile, parsed);
+      if (verdict.allowed) urls.push(url);
+      else excluded.push({ url, rule: verdict.rule! });
+    });
+    return { urls, excluded };
+  }
+
+  // --- EXTERNAL LINKS & ASSETS ---
+  // Runs beside the worker pool; the checker spaces out requests per host
+  private checkExternal(link: DiscoveredLink) {
+    this.trackBackgroundCheck(
+      this.externalChecker.check(link.url).then((result) => {
+        if (this.state !== "cancelled") this.store.saveExternalCheck(this.id, link.key, result);
+      })
+    );
+  }
+
+  // Only assets the crawl hasn't seen yet are passed in, so each is fetched once
+  private async checkPageAssets(assets: PageAsset[]) {
+    if (assets.length === 0) return;
+    const results = await checkAssets(assets, { retry: this.retry, schedule: this.scheduler.schedule });
+    if (this.state !== "cancelled") this.store.saveAssetChecks(this.id, results);
+  }
+
+  private trackBackgroundCheck(check: Promise<void>) {
+    this.backgroundChecks++;
+    // A failed check leaves its link unchecked (it is retried on resume) rather than stalling the crawl
+    check
+      .catch(() => {})
+      .finally(() => {
+        this.backgroundChecks--;
+        this.updatedAt = Date.now();
+        this.emitStats();
+        this.pump();
+      });
+  }
+
+  // --- SITEMAP ---
+  // Queues the sitemap's URLs only with seedFromSitemap; otherwise they are just listed
+  private async loadSitemap() {
+    this.seeding = true;
+    try {
+      const sitemaps = this.options.sitemapUrl ? [this.options.sitemapUrl] : await findSitemaps(this.options.startUrl);
+      const { urls, errors } = await fetchSitemapUrls(sitemaps);
+      this.sitemapErrors = errors;
+      if (this.state === "cancelled") return;
+
+      // Same scope rules as link discovery, so both sets are comparable
+      const inScope: DiscoveredLink[] = [];
+      const excluded: (DiscoveredLink & Omit<SkippedUrl, "url">)[] = [];
+      urls.forEach((url) => {
+        let parsed: URL;
+        try {
+          parsed = new URL(url);
+        } catch {
+          return;
+        }
+        if (!isAllowedHost(this.profile, parsed.hostname)) return;
+        const verdict = checkUrlRules(this.profile, parsed);
+        if (verdict.allowed) inScope.push({ key: this.frontier.canonicalize(url), url });
+        else excluded.push({ key: url, url, reason: "rule", rule: verdict.rule!, source: null });
+      });
+      const seeds = this.options.seedFromSitemap ? inScope.filter((link) => this.frontier.claim(link.url)) : [];
+
+      this.store.saveSitemapUrls(this.id, inScope, seeds);
+      // Rule exclusions only count for URLs the crawl would have fetched
+      if (this.options.seedFromSitemap) this.store.addSkippedUrls(this.id, excluded);
+      this.frontier.enqueue(seeds.map((link) => ({ url: link.url, parent: null, depth: 0 })));
+      this.updatedAt = Date.now();
+    } catch (error) {
+      this.sitemapErrors = [(error as Error).message];
+    } finally {
+      this.seeding = false;
+    }
+  }
+
+  // --- ROBOTS.TXT ---
+  private robotsPolicy(url: string): Promise<RobotsPolicy> {
+    if (this.options.respectRobots === false) return Promise.resolve(ALLOW_ALL);
+    return getRobotsPolicyForUrl(url, this.options.userAgent || DEFAULT_ROBOTS_USER_AGENT);
+  }
+
+  // Redirect hops are requests like any other: robots.txt and the host scheduler apply. The page's own slot is
+  // handed back first, so a hop to the same host never waits on the request it came from.
+  private redirectGate(releasePage: (error?: FetchError) => void): HopGate {
+    return async (url) => {
+      releasePage();
+      const policy = await this.robotsPolicy(url);
+      if (policy.error) return { error: policy.error };
+      if (!policy.isAllowed(url)) return { blocked: true };
+      return { release: await this.scheduler.acquire(url, policy.crawlDelay) };
+    };
+  }
+
+  // Discovered links robots.txt keeps us out of (robots.txt is fetched once per origin). An unreadable
+  // robots.txt blocks nothing here: the link is queued, and either crawled once it recovers or reported as an error
+  private async blockedByRobots(urls: string[]): Promise<Set<string>> {
+    const blocked = new Set<string>();
+    for (const url of urls) {
+      const policy = await this.robotsPolicy(url);
+      if (!policy.isAllowed(url) && !policy.error) blocked.add(url);
+    }
+    return blocked;
+  }
+
+  private setState(state: JobState) {
+    this.state = state;
+    this.updatedAt = Date.now();
+    this.store.updateCrawl(this.id, { state, skipped: this.skippedCount });
+    this.emitStats(true);
+  }
+
+  private emitStats(force = false) {
+    const now = Date.now();
+    if (!force && now - this.statsEventAt < STATS_EVENT_MS) return;
+    this.statsEventAt = now;
+    this.events.append({ type: "stats", ...this.liveStatus() });
+  }
+}
@@ -0,0 +1,39 @@
+import type { JobEvent, JobEventData } from "./types";
+
+const DEFAULT_CAPACITY = 5000;
+
+type Listener = (event: JobEvent) => void;
+
+// --- JOB EVENT LOG ---
+// The latest events of one job plus its live listeners. Viewers that drop off replay from the log;
+// only the last `capacity` events are kept. Counting starts over with every log (a restart, a reloaded
+// job), so ids carry the log's epoch and one from an earlier log is never mistaken for a current one.
+export class JobEventLog {
+  private events: JobEvent[] = [];
+  private epoch = Date.now().toString(36);
+  private nextSeq = 1;
+  private listeners = new Set<Listener>();
+
+  constructor(private capacity = DEFAULT_CAPACITY) {}
+
+  append(data: JobEventData) {
+    const event = { ...data, id: `${this.epoch}-${this.nextSeq++}`, at: Date.now() } as JobEvent;
+    this.events.push(event);
+    if (this.events.length > this.capacity) this.events.shift();
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  // Events after lastId, or null when some are gone (dropped from the log, or an id from another log)
+  since(lastId: string): JobEvent[] | null {
+    const [epoch, seqPart] = lastId.split("-");
+    const seq = Number(seqPart);
+    const firstSeq = this.nextSeq - this.events.length;
+    if (epoch !== this.epoch || !Number.isInteger(seq) || seq >= this.nextSeq || seq < firstSeq - 1) return null;
+    return this.events.slice(seq - firstSeq + 1);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
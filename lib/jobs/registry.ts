@@ -0,0 +1,66 @@
+import { DEFAULT_POLITENESS } from "@/lib/crawler/host-scheduler";
+import { DEFAULT_REDIRECT_HOP_LIMIT } from "@/lib/crawler/redirects";
+import { DEFAULT_RETRY_OPTIONS } from "@/lib/crawler/retry";
+import { DEFAULT_ROBOTS_USER_AGENT } from "@/lib/crawler/robots";
+import type { CrawlerState } from "@/lib/crawler/types";
+import { DEFAULT_PROFILE_ID } from "@/lib/profiles";
+import { getCrawlStore } from "@/lib/storage/crawl-store";
+import { randomUUID } from "crypto";
+import { CrawlJob } from "./crawl-job";
+import type { CrawlJobOptions, JobSummary } from "./types";
+
+export const DEFAULT_JOB_OPTIONS: Omit<CrawlJobOptions, "startUrl"> = {
+  profile: DEFAULT_PROFILE_ID,
+  maxPages: 10000,
+  maxDepth: 6,
+  concurrency: 15,
+  strategy: "dfs",
+  respectRobots: true,
+  userAgent: DEFAULT_ROBOTS_USER_AGENT,
+  seedFromSitemap: false,
+  redirectHopLimit: DEFAULT_REDIRECT_HOP_LIMIT,
+  checkExternal: false,
+  checkAssets: false,
+  retries: DEFAULT_RETRY_OPTIONS.retries,
+  retryBaseDelayMs: DEFAULT_RETRY_OPTIONS.baseDelayMs,
+  hostConcurrency: DEFAULT_POLITENESS.maxConcurrency,
+  hostDelayMs: DEFAULT_POLITENESS.minDelayMs,
+  incremental: false,
+};
+
+// Keep live jobs on globalThis so they survive module reloads in `next dev`.
+// Anything not in memory is re-hydrated from the crawl store on demand.
+const globalForJobs = globalThis as unknown as { crawlJobs?: Map<string, CrawlJob> };
+const jobs = globalForJobs.crawlJobs ?? (globalForJobs.crawlJobs = new Map<string, CrawlJob>());
+
+export function createJob(options: CrawlJobOptions, resumeFrom?: CrawlerState): CrawlJob {
+  const job = CrawlJob.create(getCrawlStore(), randomUUID(), options, resumeFrom);
+  jobs.set(job.id, job);
+  job.start();
+  return job;
+}
+
+export function getJob(id: string): CrawlJob | undefined {
+  const cached = jobs.get(id);
+  if (cached) return cached;
+
+  const job = CrawlJob.load(getCrawlStore(), id);
+  if (job) jobs.set(id, job);
+  return job;
+}
+
+// Newest first, straight from the store (a job is only built when one crawl is opened, see getJob)
+export function listJobs(): JobSummary[] {
+  const store = getCrawlStore();
+  return store.listCrawls().map((record) => {
+    const live = jobs.get(record.id);
+    const summary = { id: record.id, options: record.options, createdAt: record.createdAt, updatedAt: record.updatedAt };
+    if (live) return { ...summary, state: live.getState(), stats: live.liveStatus().stats };
+    // Not in memory: a crawl that was running when the process died comes back paused
+    return {
+      ...summary,
+      state: record.state === "running" ? "paused" : record.state,
+      stats: { ...store.getStats(record.id), skipped: record.skipped },
+    };
+  });
+}
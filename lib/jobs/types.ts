@@ -0,0 +1,118 @@
+import type { BrokenReportItem, CrawlResult, FetchError, HostRate, LinkStatus, LiveScanItem, SiteMap, Soft404Verdict } from "@/lib/crawler/types";
+import type { NormalizationRules } from "@/lib/crawler/url";
+
+export type JobState = "running" | "paused" | "cancelled" | "completed";
+
+export type JobAction = "pause" | "resume" | "cancel";
+
+export interface CrawlJobOptions {
+  startUrl: string;
+  // Site profile id (see /profiles)
+  profile: string;
+  maxPages: number;
+  maxDepth: number;
+  concurrency: number;
+  // "dfs" = new links jump to the front of the queue, "bfs" = back of the queue
+  strategy: "dfs" | "bfs";
+  // Obey robots.txt (Disallow/Allow + Crawl-delay). Turn off to audit our own staging sites.
+  respectRobots?: boolean;
+  // Product token matched against robots.txt "User-agent:" lines
+  userAgent?: string;
+  // Also queue every URL from the sitemap (robots.txt "Sitemap:" lines, else /sitemap.xml)
+  seedFromSitemap?: boolean;
+  // Explicit sitemap or sitemap index to read (and seed from)
+  sitemapUrl?: string;
+  // Redirect chains with more hops than this are reported
+  redirectHopLimit?: number;
+  // Also check outbound links (other hosts) once each; they are never crawled
+  checkExternal?: boolean;
+  // Asset audit: check every image, script, stylesheet and download a page uses
+  checkAssets?: boolean;
+  // Retries for timeouts, 429 and 5xx (0 = none), and the first backoff in ms (doubles each retry)
+  retries?: number;
+  retryBaseDelayMs?: number;
+  // Politeness: parallel requests per host, and the minimum gap between request starts to one host.
+  // Both adapt downwards on their own when the host answers 429/503 or slows down.
+  hostConcurrency?: number;
+  hostDelayMs?: number;
+  // Language folders of the profile to crawl after all (e.g. ["fr", "de"]); the rest stay skipped.
+  // hreflang alternates are validated either way.
+  languages?: string[];
+  // Incremental re-crawl: revalidate pages against an earlier crawl (If-None-Match / If-Modified-Since)
+  // and reuse its links on 304. incrementalFrom = that crawl's id (default: the latest crawl of the same site).
+  incremental?: boolean;
+  incrementalFrom?: string;
+}
+
+export interface JobStats {
+  queued: number;
+  visited: number;
+  mapped: number;
+  ok: number;
+  broken: number;
+  soft404: number;
+  // Answered 304 and reused from the baseline crawl (incremental crawls)
+  notModified: number;
+  // Already seen (duplicate links)
+  skipped: number;
+  // Blocked by robots.txt
+  robotsSkipped: number;
+  // Kept out by the profile's URL rules
+  ruleSkipped: number;
+  // Unique outbound URLs found / broken (checkExternal)
+  external: number;
+  externalBroken: number;
+  // Unique assets found / broken (checkAssets)
+  assets: number;
+  assetsBroken: number;
+}
+
+export type SkipReason = "robots" | "rule";
+
+export interface SkippedUrl {
+  url: string;
+  reason: SkipReason;
+  // Label of the URL rule (reason "rule")
+  rule?: string;
+  // Page the URL was found on (null for the start URL)
+  source: string | null;
+}
+
+// Optional heavy parts of a snapshot
+export type SnapshotInclude = "siteMap" | "results" | "skipped";
+
+export interface JobSnapshot {
+  id: string;
+  state: JobState;
+  options: CrawlJobOptions;
+  createdAt: number;
+  updatedAt: number;
+  // The profile's URL rules, so viewers key the site map the same way the job does
+  normalization: NormalizationRules;
+  activeWorkers: number;
+  stats: JobStats;
+  // Effective request rate per host right now
+  hostRates: HostRate[];
+  feed: LiveScanItem[];
+  brokenLinks: BrokenReportItem[];
+  siteMap?: SiteMap;
+  results?: CrawlResult[];
+  skippedUrls?: SkippedUrl[];
+}
+
+// A crawl in the job list: no live parts, so listing doesn't load every stored crawl into a job
+export type JobSummary = Pick<JobSnapshot, "id" | "state" | "options" | "createdAt" | "updatedAt" | "stats">;
+
+// --- LIVE EVENTS ---
+// Streamed over /api/jobs/:id/events (Server-Sent Events). ids ("<epoch>-<n>") count up per job, so a viewer that
+// reconnects with Last-Event-ID gets what it missed; the epoch changes when the log does (e.g. a restart).
+export type JobEventData =
+  | { type: "page-started"; url: string; depth: number }
+  // foundCount = links on the page, queued = how many of them were new
+  | ({ type: "page-finished"; queued: number; notModified: boolean } & LiveScanItem)
+  // foundOnPage: "ROOT" for the start URL
+  | { type: "broken-link"; url: string; status: LinkStatus; foundOnPage: string; error?: FetchError; soft404?: Soft404Verdict }
+  // At most once a second while pages finish, and on every state change
+  | { type: "stats"; state: JobState; activeWorkers: number; stats: JobStats };
+
+export type JobEvent = JobEventData & { id: string; at: number };
@@ -0,0 +1,17 @@
+import type { CheerioAPI } from "cheerio";
+import type { SiteProfile } from "./types";
+
+// --- PROFILE-DRIVEN DOM HELPERS ---
+export function removeNoise($: CheerioAPI, profile: SiteProfile) {
+  if (profile.noiseSelectors.length > 0) $(profile.noiseSelectors.join(", ")).remove();
+}
+
+export function isLeafPage($: CheerioAPI, profile: SiteProfile): boolean {
+  return profile.leafSelectors.some((selector) => $(selector).length > 0);
+}
+
+// Precision mode: prefer the first content area present on the page, fall back to <body>
+export function linkSelector($: CheerioAPI, profile: SiteProfile): string {
+  const contentArea = profile.contentSelectors.find((selector) => $(selector).length > 0);
+  return contentArea ? `${contentArea} a` : "body a";
+}
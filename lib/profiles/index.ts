@@ -0,0 +1,170 @@
+import { DEFAULT_NORMALIZATION, resolveNormalizationRules, type NormalizationRules } from "@/lib/crawler/url";
+import { compileUrlRules, evaluateUrl, URL_RULE_MATCHERS, type UrlRule, type UrlRuleSet, type UrlRuleVerdict } from "@/lib/crawler/url-rules";
+import fs from "fs";
+import path from "path";
+import type { SiteProfile } from "./types";
+
+export type { SiteProfile } from "./types";
+
+export const DEFAULT_PROFILE_ID = "coloringonly";
+
+const PROFILES_DIR = process.env.CRAWLER_PROFILES_DIR || path.join(process.cwd(), "profiles");
+
+const STRING_LIST_FIELDS = [
+  "allowedHosts",
+  "excludedLanguagePrefixes",
+  "excludedPaths",
+  "noiseSelectors",
+  "leafSelectors",
+  "contentSelectors",
+  "listingSelectors",
+  "downloadSelectors",
+] as const;
+
+// Validate a parsed profile file. Optional lists default to [].
+export function parseSiteProfile(raw: unknown, source = "profile"): SiteProfile {
+  if (!raw || typeof raw !== "object") throw new Error(`${source}: expected a JSON object`);
+  const data = raw as Record<string, unknown>;
+
+  for (const field of ["id", "name", "startUrl"] as const) {
+    if (typeof data[field] !== "string" || !data[field]) throw new Error(`${source}: "${field}" must be a non-empty string`);
+  }
+  try {
+    new URL(data.startUrl as string);
+  } catch {
+    throw new Error(`${source}: "startUrl" is not a valid URL`);
+  }
+
+  const lists = {} as Record<(typeof STRING_LIST_FIELDS)[number], string[]>;
+  for (const field of STRING_LIST_FIELDS) {
+    const value = data[field] ?? [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      throw new Error(`${source}: "${field}" must be an array of strings`);
+    }
+    lists[field] = value;
+  }
+  if (lists.allowedHosts.length === 0) throw new Error(`${source}: "allowedHosts" must list at least one host`);
+
+  return {
+    id: data.id as string,
+    name: data.name as string,
+    startUrl: data.startUrl as string,
+    ...lists,
+    ...(data.normalization !== undefined ? { normalization: parseNormalization(data.normalization, source) } : {}),
+    ...(data.urlRules !== undefined ? { urlRules: parseUrlRules(data.urlRules, source) } : {}),
+  };
+}
+
+function parseNormalization(raw: unknown, source: string): Partial<NormalizationRules> {
+  if (!raw || typeof raw !== "object") throw new Error(`${source}: "normalization" must be an object`);
+  const data = raw as Record<string, unknown>;
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!(key in DEFAULT_NORMALIZATION)) throw new Error(`${source}: unknown normalization rule "${key}"`);
+    const valid = key === "keepQueryParams" ? Array.isArray(value) && value.every((item) => typeof item === "string") : typeof value === "boolean";
+    if (!valid) throw new Error(`${source}: invalid value for normalization rule "${key}"`);
+  }
+  return data as Partial<NormalizationRules>;
+}
+
+function parseUrlRules(raw: unknown, source: string): UrlRule[] {
+  if (!Array.isArray(raw)) throw new Error(`${source}: "urlRules" must be an array`);
+  const rules = raw.map((item, index) => {
+    const rule = (item ?? {}) as Record<string, unknown>;
+    if (rule.action !== "include" && rule.action !== "exclude")
+      throw new Error(`${source}: urlRules[${index}].action must be "include" or "exclude"`);
+    for (const [key, value] of Object.entries(rule)) {
+      if (key !== "action" && key !== "name" && !(URL_RULE_MATCHERS as readonly string[]).includes(key)) {
+        throw new Error(`${source}: unknown field "${key}" in urlRules[${index}]`);
+      }
+      if (typeof value !== "string" || !value) throw new Error(`${source}: urlRules[${index}].${key} must be a non-empty string`);
+    }
+    return rule as unknown as UrlRule;
+  });
+  // Catches a missing matcher, two matchers in one rule and invalid regexes
+  try {
+    compileUrlRules(rules);
+  } catch (error) {
+    throw new Error(`${source}: ${(error as Error).message}`);
+  }
+  return rules;
+}
+
+export function listProfiles(): SiteProfile[] {
+  if (!fs.existsSync(PROFILES_DIR)) return [];
+  return fs
+    .readdirSync(PROFILES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => readProfileFile(path.join(PROFILES_DIR, file)));
+}
+
+export function getProfile(id: string = DEFAULT_PROFILE_ID): SiteProfile {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid profile id: ${id}`);
+
+  const file = path.join(PROFILES_DIR, `${id}.json`);
+  if (!fs.existsSync(file)) throw new Error(`Unknown site profile: ${id}`);
+  return readProfileFile(file);
+}
+
+function readProfileFile(file: string): SiteProfile {
+  return parseSiteProfile(JSON.parse(fs.readFileSync(file, "utf8")), path.basename(file));
+}
+
+// The profile with some of its skipped language folders crawled after all (the job's `languages` option).
+// Throws on a language that isn't one of its folders.
+export function withLanguages(profile: SiteProfile, languages: string[] = []): SiteProfile {
+  if (languages.length === 0) return profile;
+  const wanted = new Set(languages.map((language) => language.toLowerCase()));
+  const folders = new Set(profile.excludedLanguagePrefixes.map((prefix) => prefix.toLowerCase()));
+  const unknown = Array.from(wanted).filter((language) => !folders.has(language));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Not a language folder of profile "${profile.id}": ${unknown.join(", ")} (has ${profile.excludedLanguagePrefixes.join(", ") || "none"})`
+    );
+  }
+  return { ...profile, excludedLanguagePrefixes: profile.excludedLanguagePrefixes.filter((prefix) => !wanted.has(prefix.toLowerCase())) };
+}
+
+// --- PROFILE RULES ---
+export const getNormalizationRules = (profile: SiteProfile): NormalizationRules => resolveNormalizationRules(profile.normalization);
+
+const stripWww = (host: string) => host.toLowerCase().replace(/^www\./, "");
+
+export function isAllowedHost(profile: SiteProfile, hostname: string): boolean {
+  const host = stripWww(hostname);
+  return profile.allowedHosts.some((allowed) => stripWww(allowed) === host);
+}
+
+// The profile's own rules, then its language folders, excluded paths and query-string policy as rules
+export function profileUrlRules(profile: SiteProfile): UrlRule[] {
+  const { keepQueryParams } = getNormalizationRules(profile);
+  return [
+    ...(profile.urlRules ?? []),
+    ...profile.excludedLanguagePrefixes.map((lang): UrlRule => ({ action: "exclude", name: `Language /${lang}`, pathPrefix: `/${lang}` })),
+    ...profile.excludedPaths.map((fragment): UrlRule => ({ action: "exclude", name: `Path contains ${fragment}`, glob: `**${fragment}**` })),
+    // Query strings are junk unless they carry a param the profile keeps
+    ...(keepQueryParams.includes("*")
+      ? []
+      : [
+          ...keepQueryParams.map((param): UrlRule => ({ action: "include", name: `Query param ${param}`, queryParam: param })),
+          { action: "exclude", name: "Query string", queryParam: "*" } satisfies UrlRule,
+        ]),
+  ];
+}
+
+// Compiled once per loaded profile
+const compiledRules = new WeakMap<SiteProfile, UrlRuleSet>();
+
+export function getUrlRules(profile: SiteProfile): UrlRuleSet {
+  let rules = compiledRules.get(profile);
+  if (!rules) compiledRules.set(profile, (rules = compileUrlRules(profileUrlRules(profile))));
+  return rules;
+}
+
+// Why an in-scope URL would or wouldn't be crawled (host checks are separate, see isInScope)
+export const checkUrlRules = (profile: SiteProfile, url: URL): UrlRuleVerdict => evaluateUrl(getUrlRules(profile), url);
+
+// Internal and let through by the URL rules
+export function isInScope(profile: SiteProfile, url: URL): boolean {
+  return isAllowedHost(profile, url.hostname) && checkUrlRules(profile, url).allowed;
+}
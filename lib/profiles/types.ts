@@ -0,0 +1,31 @@
+import type { NormalizationRules } from "@/lib/crawler/url";
+import type { UrlRule } from "@/lib/crawler/url-rules";
+
+// --- SITE PROFILE ---
+// Everything site-specific the crawler needs. Profiles live as JSON files in /profiles.
+export interface SiteProfile {
+  id: string;
+  name: string;
+  // Default crawl root
+  startUrl: string;
+  // Hostnames that count as "internal" ("www." is ignored)
+  allowedHosts: string[];
+  // Language folders to skip, e.g. "fr" skips /fr and /fr/...
+  excludedLanguagePrefixes: string[];
+  // Path substrings that are never crawled, e.g. "/wp-"
+  excludedPaths: string[];
+  // Ordered include/exclude rules, checked before the two lists above (see lib/crawler/url-rules)
+  urlRules?: UrlRule[];
+  // Removed from the DOM before links are extracted (headers, sidebars, ads, related posts...)
+  noiseSelectors: string[];
+  // Any match marks the page as a leaf (final page, links are not followed)
+  leafSelectors: string[];
+  // First selector present on the page scopes link extraction; falls back to <body>
+  contentSelectors: string[];
+  // Containers that list posts (e.g. the category grid); present but empty means a soft-404
+  listingSelectors: string[];
+  // Elements whose href/data-* URL is the page's download (image, PDF); checked by the asset audit
+  downloadSelectors: string[];
+  // How URLs are deduplicated on this site (defaults: lowercase path, strip trailing slash, strip www, drop query)
+  normalization?: Partial<NormalizationRules>;
+}
@@ -0,0 +1,836 @@
+import type { HreflangPage } from "@/lib/crawler/hreflang";
+import type { IndexingPage } from "@/lib/crawler/indexing";
+import { isBrokenStatus } from "@/lib/crawler/status";
+import type {
+  AssetCheckResult,
+  AssetReportItem,
+  BrokenReportItem,
+  CrawlerState,
+  CrawlResult,
+  ExternalCheckResult,
+  ExternalReportItem,
+  FetchError,
+  HreflangAlternate,
+  LinkContext,
+  LinkSource,
+  LinkStatus,
+  PageAsset,
+  PageCrawlResult,
+  PageIndexing,
+  PageInventoryItem,
+  PageNode,
+  PageValidators,
+  QueueItem,
+  RedirectChain,
+  RuleExcludedLink,
+  SiteMap,
+  SitemapCoverage,
+  Soft404Verdict,
+} from "@/lib/crawler/types";
+import type { CrawlJobOptions, JobState, JobStats, SkippedUrl } from "@/lib/jobs/types";
+import type Database from "better-sqlite3";
+import { getDb } from "./db";
+
+export interface CrawlRecord {
+  id: string;
+  options: CrawlJobOptions;
+  state: JobState;
+  skipped: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PageRow {
+  url_key: string;
+  url: string;
+  status: LinkStatus;
+  parent: string | null;
+  depth: number;
+  is_leaf: number | null;
+  redirect_location: string | null;
+  content_type: string | null;
+  last_modified: string | null;
+  etag: string | null;
+  // 1 = answered 304 and reused from the baseline crawl (incremental crawls)
+  not_modified: number | null;
+  // JSON RedirectChain
+  redirect_chain: string | null;
+  // JSON Soft404Verdict
+  soft_404: string | null;
+  // JSON FetchError
+  error: string | null;
+  canonical: string | null;
+  canonical_key: string | null;
+  // JSON string[] of robots directives (NULL = not an OK page)
+  robots: string | null;
+  discovered_at: number;
+  fetched_at: number | null;
+}
+
+export interface PageResult {
+  url: string;
+  status: LinkStatus;
+  parent: string | null;
+  depth: number;
+  isLeaf: boolean;
+  redirectLocation: string | null;
+  redirectChain: RedirectChain | null;
+  soft404: Soft404Verdict | null;
+  error: FetchError | null;
+  contentType: string | null;
+  lastModified: string | null;
+  etag: string | null;
+  notModified: boolean;
+  // The canonical keyed with the crawl's canonicalizer
+  indexing: (PageIndexing & { canonicalKey: string | null }) | null;
+}
+
+// A page from an earlier crawl that can be revalidated, and what crawlPage extracted from it then
+export interface CachedPage {
+  validators: PageValidators;
+  result: PageCrawlResult;
+}
+
+export interface DiscoveredLink {
+  key: string;
+  url: string;
+}
+
+// An edge: the link plus where it sits on the source page
+export interface PageLink extends DiscoveredLink {
+  context?: Omit<LinkContext, "url">;
+}
+
+interface EdgeContextRow {
+  anchor_text: string | null;
+  rel: string | null;
+  heading: string | null;
+  selector: string | null;
+  occurrences: number | null;
+}
+
+// null for edges stored before link context was captured (or imported from a saved state)
+const toLinkContext = (url: string, row: EdgeContextRow): LinkContext | null =>
+  row.selector === null
+    ? null
+    : {
+        url,
+        anchorText: row.anchor_text ?? "",
+        rel: row.rel ? row.rel.split(" ") : [],
+        heading: row.heading,
+        selector: row.selector,
+        occurrences: row.occurrences ?? 1,
+      };
+
+interface CrawlRow {
+  id: string;
+  options: string;
+  state: JobState;
+  skipped: number;
+  created_at: number;
+  updated_at: number;
+}
+
+const toCrawlRecord = (row: CrawlRow): CrawlRecord => ({
+  id: row.id,
+  options: JSON.parse(row.options),
+  state: row.state,
+  skipped: row.skipped,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// A saved state's queue is user input
+const isQueueableUrl = (url: unknown) => {
+  try {
+    return typeof url === "string" && ["http:", "https:"].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// --- CRAWL STORE ---
+// Single source of truth for crawl results. BrokenReportItem, SiteMap and CrawlResult
+// are all views over the pages + edges tables.
+export class CrawlStore {
+  constructor(private db: Database.Database) {}
+
+  // --- CRAWLS ---
+  createCrawl(id: string, options: CrawlJobOptions, state: JobState) {
+    const now = Date.now();
+    this.db
+      .prepare("INSERT INTO crawls (id, start_url, options, state, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)")
+      .run(id, options.startUrl, JSON.stringify(options), state, now, now);
+  }
+
+  updateCrawl(id: string, fields: { state?: JobState; skipped?: number }) {
+    const current = this.getCrawl(id);
+    if (!current) return;
+    this.db
+      .prepare("UPDATE crawls SET state = ?, skipped = ?, updated_at = ? WHERE id = ?")
+      .run(fields.state ?? current.state, fields.skipped ?? current.skipped, Date.now(), id);
+  }
+
+  getCrawl(id: string): CrawlRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM crawls WHERE id = ?").get(id) as CrawlRow | undefined;
+    return row ? toCrawlRecord(row) : undefined;
+  }
+
+  listCrawls(): CrawlRecord[] {
+    const rows = this.db.prepare("SELECT * FROM crawls ORDER BY created_at DESC").all() as CrawlRow[];
+    return rows.map(toCrawlRecord);
+  }
+
+  // Most recent crawl of the same start URL with the same profile (the baseline of an incremental crawl)
+  findLatestCrawl(startUrl: string, profile: string): CrawlRecord | undefined {
+    const row = this.db
+      .prepare("SELECT * FROM crawls WHERE start_url = ? AND json_extract(options, '$.profile') = ? ORDER BY created_at DESC LIMIT 1")
+      .get(startUrl, profile) as CrawlRow | undefined;
+    return row ? toCrawlRecord(row) : undefined;
+  }
+
+  // --- PAGES & EDGES ---
+  // Queue a newly discovered URL (no-op if the crawl already knows it)
+  addPendingPage(crawlId: string, key: string, item: QueueItem) {
+    this.db
+      .prepare("INSERT OR IGNORE INTO pages (crawl_id, url_key, url, parent, depth, discovered_at) VALUES (?, ?, ?, ?, ?, ?)")
+      .run(crawlId, key, item.url, item.parent, item.depth, Date.now());
+  }
+
+  // Record a fetched page, the links found on it and the new URLs it queued, atomically
+  savePageResult(crawlId: string, key: string, result: PageResult, links: PageLink[] = [], queued: (DiscoveredLink & { depth: number })[] = []) {
+    const now = Date.now();
+    const upsertPage = this.db.prepare(`
+      INSERT INTO pages (crawl_id, url_key, url, status, parent, depth, is_leaf, redirect_location, redirect_chain, soft_404, error, content_type, last_modified, etag, not_modified, canonical, canonical_key, robots, discovered_at, fetched_at)
+      VALUES (@crawlId, @key, @url, @status, @parent, @depth, @isLeaf, @redirectLocation, @redirectChain, @soft404, @error, @contentType, @lastModified, @etag, @notModified, @canonical, @canonicalKey, @robots, @now, @now)
+      ON CONFLICT (crawl_id, url_key) DO UPDATE SET
+        status = excluded.status, is_leaf = excluded.is_leaf, redirect_location = excluded.redirect_location, redirect_chain = excluded.redirect_chain,
+        soft_404 = excluded.soft_404, error = excluded.error, content_type = excluded.content_type, last_modified = excluded.last_modified,
+        etag = excluded.etag, not_modified = excluded.not_modified, canonical = excluded.canonical, canonical_key = excluded.canonical_key,
+        robots = excluded.robots, fetched_at = excluded.fetched_at
+    `);
+    const insertEdge = this.db.prepare(`
+      INSERT OR IGNORE INTO edges (crawl_id, source_key, target_key, target_url, position, anchor_text, rel, heading, selector, occurrences, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertPending = this.db.prepare(
+      "INSERT OR IGNORE INTO pages (crawl_id, url_key, url, parent, depth, discovered_at) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+
+    const { indexing, ...page } = result;
+
+    this.db.transaction(() => {
+      upsertPage.run({
+        crawlId,
+        key,
+        ...page,
+        isLeaf: result.isLeaf ? 1 : 0,
+        redirectChain: result.redirectChain ? JSON.stringify(result.redirectChain) : null,
+        soft404: result.soft404 ? JSON.stringify(result.soft404) : null,
+        error: result.error ? JSON.stringify(result.error) : null,
+        notModified: result.notModified ? 1 : 0,
+        canonical: indexing?.canonical ?? null,
+        canonicalKey: indexing?.canonicalKey ?? null,
+        robots: indexing ? JSON.stringify(indexing.robots) : null,
+        now,
+      });
+      links.forEach((link, position) => {
+        const context = link.context;
+        insertEdge.run(
+          crawlId,
+          key,
+          link.key,
+          link.url,
+          position,
+          context?.anchorText ?? null,
+          context?.rel.join(" ") ?? null,
+          context?.heading ?? null,
+          context?.selector ?? null,
+          context?.occurrences ?? null,
+          now
+        );
+      });
+      queued.forEach((link) => insertPending.run(crawlId, link.key, link.url, result.url, link.depth, now));
+    })();
+  }
+
+  // Record URLs that were found but not fetched; the first reason recorded for a URL wins
+  addSkippedUrls(crawlId: string, items: (DiscoveredLink & Omit<SkippedUrl, "url">)[]) {
+    if (items.length === 0) return;
+    const now = Date.now();
+    const insert = this.db.prepare(
+      "INSERT OR IGNORE INTO skipped_urls (crawl_id, url_key, url, reason, rule, source_url, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    );
+    this.db.transaction(() => items.forEach((item) => insert.run(crawlId, item.key, item.url, item.reason, item.rule ?? null, item.source, now)))();
+  }
+
+  // A queued page that turned out to be off-limits: drop it from the queue and record why
+  skipPendingPage(crawlId: string, key: string, item: Omit<SkippedUrl, "url"> & { url: string }) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM pages WHERE crawl_id = ? AND url_key = ? AND status = 'pending'").run(crawlId, key);
+      this.addSkippedUrls(crawlId, [{ key, ...item }]);
+    })();
+  }
+
+  getSkippedUrls(crawlId: string): SkippedUrl[] {
+    const rows = this.db
+      .prepare("SELECT url, reason, rule, source_url AS source FROM skipped_urls WHERE crawl_id = ? ORDER BY created_at, rowid")
+      .all(crawlId) as (SkippedUrl & { rule: string | null })[];
+    return rows.map(({ rule, ...item }) => (rule ? { ...item, rule } : item));
+  }
+
+  // URLs kept out per URL rule, with the first `sampleSize` of each
+  getRuleHits(crawlId: string, sampleSize: number): Map<string, { hits: number; samples: { url: string; source: string | null }[] }> {
+    const rows = this.db
+      .prepare(
+        `SELECT rule, url, source_url AS source
+        FROM (SELECT *, ROW_NUMBER() OVER (PARTITION BY rule ORDER BY created_at, rowid) AS position
+          FROM skipped_urls WHERE crawl_id = ? AND reason = 'rule')
+        WHERE position <= ?`
+      )
+      .all(crawlId, sampleSize) as { rule: string; url: string; source: string | null }[];
+    const counts = this.db
+      .prepare("SELECT rule, COUNT(*) AS hits FROM skipped_urls WHERE crawl_id = ? AND reason = 'rule' GROUP BY rule")
+      .all(crawlId) as { rule: string; hits: number }[];
+
+    const hits = new Map(counts.map((count) => [count.rule, { hits: count.hits, samples: [] as { url: string; source: string | null }[] }]));
+    rows.forEach((row) => hits.get(row.rule)?.samples.push({ url: row.url, source: row.source }));
+    return hits;
+  }
+
+  // --- EXTERNAL LINKS ---
+  // Record the outbound links found on a page; returns the ones this crawl had never seen (they need a check)
+  addExternalLinks(crawlId: string, sourceUrl: string, links: DiscoveredLink[]): DiscoveredLink[] {
+    if (links.length === 0) return [];
+    const now = Date.now();
+    const insertLink = this.db.prepare("INSERT OR IGNORE INTO external_links (crawl_id, url_key, url, discovered_at) VALUES (?, ?, ?, ?)");
+    const insertSource = this.db.prepare("INSERT OR IGNORE INTO external_sources (crawl_id, url_key, source_url) VALUES (?, ?, ?)");
+
+    return this.db.transaction(() =>
+      links.filter((link) => {
+        insertSource.run(crawlId, link.key, sourceUrl);
+        return insertLink.run(crawlId, link.key, link.url, now).changes === 1;
+      })
+    )();
+  }
+
+  saveExternalCheck(crawlId: string, key: string, result: ExternalCheckResult) {
+    this.db
+      .prepare(
+        "UPDATE external_links SET status = ?, label = ?, status_code = ?, final_url = ?, error = ?, checked_at = ? WHERE crawl_id = ? AND url_key = ?"
+      )
+      .run(
+        result.status,
+        result.label,
+        result.statusCode,
+        result.finalUrl,
+        result.error ? JSON.stringify(result.error) : null,
+        Date.now(),
+        crawlId,
+        key
+      );
+  }
+
+  // Found but never checked (the process stopped first)
+  getUncheckedExternalLinks(crawlId: string): DiscoveredLink[] {
+    return this.db
+      .prepare("SELECT url_key AS key, url FROM external_links WHERE crawl_id = ? AND status IS NULL ORDER BY rowid")
+      .all(crawlId) as DiscoveredLink[];
+  }
+
+  getExternalLinks(crawlId: string): ExternalReportItem[] {
+    const rows = this.db
+      .prepare(
+        `SELECT l.url, COALESCE(l.status, 'pending') AS status, l.label, l.status_code AS statusCode, l.final_url AS finalUrl, l.error,
+          json_group_array(s.source_url) AS foundOn
+        FROM external_links l JOIN external_sources s ON s.crawl_id = l.crawl_id AND s.url_key = l.url_key
+        WHERE l.crawl_id = ? GROUP BY l.url_key ORDER BY l.rowid`
+      )
+      .all(crawlId) as (Omit<ExternalReportItem, "foundOn" | "error"> & { foundOn: string; error: string | null })[];
+
+    return rows.map(({ error, ...row }) => ({
+      ...row,
+      ...(error ? { error: JSON.parse(error) as FetchError } : {}),
+      foundOn: JSON.parse(row.foundOn) as string[],
+    }));
+  }
+
+  // --- ASSETS ---
+  // Record the assets a page uses; returns the ones this crawl had never seen (they need a check)
+  addAssets(crawlId: string, sourceUrl: string, assets: PageAsset[]): PageAsset[] {
+    if (assets.length === 0) return [];
+    const now = Date.now();
+    const insertAsset = this.db.prepare("INSERT OR IGNORE INTO assets (crawl_id, url_key, url, kind, discovered_at) VALUES (?, ?, ?, ?, ?)");
+    const insertSource = this.db.prepare("INSERT OR IGNORE INTO asset_sources (crawl_id, url_key, source_url) VALUES (?, ?, ?)");
+
+    return this.db.transaction(() =>
+      assets.filter((asset) => {
+        insertSource.run(crawlId, asset.url, sourceUrl);
+        return insertAsset.run(crawlId, asset.url, asset.url, asset.kind, now).changes === 1;
+      })
+    )();
+  }
+
+  saveAssetChecks(crawlId: string, results: AssetCheckResult[]) {
+    const now = Date.now();
+    const update = this.db.prepare(
+      "UPDATE assets SET status = ?, label = ?, status_code = ?, content_type = ?, error = ?, checked_at = ? WHERE crawl_id = ? AND url_key = ?"
+    );
+    this.db.transaction(() =>
+      results.forEach((result) =>
+        update.run(
+          result.status,
+          result.label,
+          result.statusCode,
+          result.contentType,
+          result.error ? JSON.stringify(result.error) : null,
+          now,
+          crawlId,
+          result.url
+        )
+      )
+    )();
+  }
+
+  // Found but never checked (the process stopped first)
+  getUncheckedAssets(crawlId: string): PageAsset[] {
+    return this.db.prepare("SELECT url, kind FROM assets WHERE crawl_id = ? AND status IS NULL ORDER BY rowid").all(crawlId) as PageAsset[];
+  }
+
+  getAssets(crawlId: string): AssetReportItem[] {
+    const rows = this.db
+      .prepare(
+        `SELECT a.url, a.kind, COALESCE(a.status, 'pending') AS status, a.label, a.status_code AS statusCode, a.content_type AS contentType, a.error,
+          json_group_array(s.source_url) AS usedOn
+        FROM assets a JOIN asset_sources s ON s.crawl_id = a.crawl_id AND s.url_key = a.url_key
+        WHERE a.crawl_id = ? GROUP BY a.url_key ORDER BY a.rowid`
+      )
+      .all(crawlId) as (Omit<AssetReportItem, "usedOn" | "error"> & { usedOn: string; error: string | null })[];
+
+    return rows.map(({ error, ...row }) => ({
+      ...row,
+      ...(error ? { error: JSON.parse(error) as FetchError } : {}),
+      usedOn: JSON.parse(row.usedOn) as string[],
+    }));
+  }
+
+  // --- CANONICAL & INDEXING ---
+  // Menus repeat on every page, so only the first page a URL is seen in a menu on is kept
+  addNavigationLinks(crawlId: string, sourceUrl: string, links: DiscoveredLink[]) {
+    if (links.length === 0) return;
+    const insert = this.db.prepare("INSERT OR IGNORE INTO navigation_links (crawl_id, url_key, url, source_url) VALUES (?, ?, ?, ?)");
+    this.db.transaction(() => links.forEach((link) => insert.run(crawlId, link.key, link.url, sourceUrl)))();
+  }
+
+  // Every fetched page with its canonical, robots directives and whether a menu or the sitemap lists it
+  getIndexingPages(crawlId: string): IndexingPage[] {
+    const rows = this.db
+      .prepare(
+        `SELECT p.url_key, p.url, p.status, p.canonical, p.canonical_key, p.robots,
+          EXISTS (SELECT 1 FROM navigation_links n WHERE n.crawl_id = p.crawl_id AND n.url_key = p.url_key) AS in_navigation,
+          EXISTS (SELECT 1 FROM sitemap_urls s WHERE s.crawl_id = p.crawl_id AND s.url_key = p.url_key) AS in_sitemap
+        FROM pages p WHERE p.crawl_id = ? AND p.status != 'pending' ORDER BY p.rowid`
+      )
+      .all(crawlId) as (Pick<PageRow, "url_key" | "url" | "status" | "canonical" | "canonical_key" | "robots"> & {
+      in_navigation: number;
+      in_sitemap: number;
+    })[];
+
+    return rows.map((row) => ({
+      url: row.url,
+      key: row.url_key,
+      status: row.status,
+      canonical: row.canonical,
+      canonicalKey: row.canonical_key,
+      robots: row.robots ? (JSON.parse(row.robots) as string[]) : [],
+      inNavigation: row.in_navigation === 1,
+      inSitemap: row.in_sitemap === 1,
+    }));
+  }
+
+  // --- HREFLANG ---
+  // Replaces what an earlier fetch of the page declared
+  saveAlternates(crawlId: string, pageKey: string, alternates: (HreflangAlternate & { key: string })[]) {
+    const insert = this.db.prepare("INSERT INTO alternates (crawl_id, page_key, position, hreflang, url, url_key) VALUES (?, ?, ?, ?, ?, ?)");
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM alternates WHERE crawl_id = ? AND page_key = ?").run(crawlId, pageKey);
+      alternates.forEach((alternate, position) => insert.run(crawlId, pageKey, position, alternate.hreflang, alternate.url, alternate.key));
+    })();
+  }
+
+  // Every fetched page with the alternates it declares (none for pages that aren't OK HTML)
+  getHreflangPages(crawlId: string): HreflangPage[] {
+    const pages = this.db
+      .prepare("SELECT url_key, url, status FROM pages WHERE crawl_id = ? AND status != 'pending' ORDER BY rowid")
+      .all(crawlId) as Pick<PageRow, "url_key" | "url" | "status">[];
+    const alternates = this.db
+      .prepare("SELECT page_key, hreflang, url, url_key FROM alternates WHERE crawl_id = ? ORDER BY page_key, position")
+      .all(crawlId) as { page_key: string; hreflang: string; url: string; url_key: string }[];
+
+    const byPage = new Map<string, HreflangPage["alternates"]>();
+    alternates.forEach((row) => {
+      const list = byPage.get(row.page_key) ?? [];
+      list.push({ hreflang: row.hreflang, url: row.url, key: row.url_key });
+      byPage.set(row.page_key, list);
+    });
+    return pages.map((page) => ({ url: page.url, key: page.url_key, status: page.status, alternates: byPage.get(page.url_key) ?? [] }));
+  }
+
+  // --- INCREMENTAL RE-CRAWL ---
+  // An HTML page the earlier crawl fetched OK (or flagged soft-404) with an ETag or Last-Modified,
+  // rebuilt as the PageCrawlResult crawlPage returned then: links with context, outbound links, assets, alternates,
+  // indexing, and the menu links and rule-excluded links first seen on it.
+  getCachedPage(crawlId: string, key: string): CachedPage | undefined {
+    const page = this.db
+      .prepare(
+        `SELECT url, status, is_leaf, soft_404, content_type, last_modified, etag, canonical, robots FROM pages
+        WHERE crawl_id = ? AND url_key = ? AND status IN ('ok', 'soft-404') AND redirect_chain IS NULL
+          AND content_type LIKE '%text/html%' AND (etag IS NOT NULL OR last_modified IS NOT NULL)`
+      )
+      .get(crawlId, key) as
+      Pick<PageRow, "url" | "status" | "is_leaf" | "soft_404" | "content_type" | "last_modified" | "etag" | "canonical" | "robots"> | undefined;
+    if (!page) return undefined;
+
+    const edges = this.db
+      .prepare(
+        "SELECT target_url, anchor_text, rel, heading, selector, occurrences FROM edges WHERE crawl_id = ? AND source_key = ? ORDER BY position"
+      )
+      .all(crawlId, key) as ({ target_url: string } & EdgeContextRow)[];
+    const contexts = edges.map((edge) => toLinkContext(edge.target_url, edge));
+    const externalLinks = this.db
+      .prepare("SELECT url_key FROM external_sources WHERE crawl_id = ? AND source_url = ? ORDER BY rowid")
+      .all(crawlId, page.url) as { url_key: string }[];
+    const assets = this.db
+      .prepare(
+        `SELECT a.url, a.kind FROM asset_sources s JOIN assets a ON a.crawl_id = s.crawl_id AND a.url_key = s.url_key
+        WHERE s.crawl_id = ? AND s.source_url = ? ORDER BY s.rowid`
+      )
+      .all(crawlId, page.url) as PageAsset[];
+    const alternates = this.db
+      .prepare("SELECT hreflang, url FROM alternates WHERE crawl_id = ? AND page_key = ? ORDER BY position")
+      .all(crawlId, key) as HreflangAlternate[];
+    const navigationLinks = this.db
+      .prepare("SELECT url FROM navigation_links WHERE crawl_id = ? AND source_url = ? ORDER BY rowid")
+      .all(crawlId, page.url) as { url: string }[];
+    // Each excluded URL is stored once, with the first page it was found on; that page brings it back
+    const ruleExcludedLinks = this.db
+      .prepare("SELECT url, rule FROM skipped_urls WHERE crawl_id = ? AND reason = 'rule' AND rule IS NOT NULL AND source_url = ? ORDER BY rowid")
+      .all(crawlId, page.url) as RuleExcludedLink[];
+
+    return {
+      validators: { etag: page.etag, lastModified: page.last_modified },
+      result: {
+        url: page.url,
+        status: page.status === "soft-404" ? "soft-404" : "ok",
+        redirectLocation: null,
+        ...(page.soft_404 ? { soft404: JSON.parse(page.soft_404) as Soft404Verdict } : {}),
+        links: edges.map((edge) => edge.target_url),
+        // Edges saved before link context was captured have none; contexts are all-or-nothing
+        ...(contexts.every(Boolean) ? { linkContexts: contexts as LinkContext[] } : {}),
+        externalLinks: externalLinks.map((link) => link.url_key),
+        assets,
+        ...(alternates.length > 0 ? { alternates } : {}),
+        ...(ruleExcludedLinks.length > 0 ? { ruleExcludedLinks } : {}),
+        // Pages stored before robots directives were captured have none
+        ...(page.robots ? { indexing: { canonical: page.canonical, robots: JSON.parse(page.robots) as string[] } } : {}),
+        ...(navigationLinks.length > 0 ? { navigationLinks: navigationLinks.map((link) => link.url) } : {}),
+        isLeaf: page.is_leaf === 1,
+        contentType: page.content_type,
+        lastModified: page.last_modified,
+        etag: page.etag,
+      },
+    };
+  }
+
+  // --- SITEMAP ---
+  // Remember the sitemap's URL set and queue the ones the crawl hasn't seen yet
+  saveSitemapUrls(crawlId: string, urls: DiscoveredLink[], queued: DiscoveredLink[]) {
+    const now = Date.now();
+    const insertUrl = this.db.prepare("INSERT OR IGNORE INTO sitemap_urls (crawl_id, url_key, url) VALUES (?, ?, ?)");
+    const insertPending = this.db.prepare(
+      "INSERT OR IGNORE INTO pages (crawl_id, url_key, url, parent, depth, discovered_at) VALUES (?, ?, ?, NULL, 0, ?)"
+    );
+    this.db.transaction(() => {
+      urls.forEach((link) => insertUrl.run(crawlId, link.key, link.url));
+      queued.forEach((link) => insertPending.run(crawlId, link.key, link.url, now));
+    })();
+  }
+
+  hasSitemapUrls(crawlId: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM sitemap_urls WHERE crawl_id = ? LIMIT 1").get(crawlId);
+  }
+
+  // rootKey: the start URL, which nothing needs to link to
+  getSitemapCoverage(crawlId: string, rootKey: string): Omit<SitemapCoverage, "errors"> {
+    const orphans = this.db
+      .prepare(
+        `SELECT s.url, COALESCE(p.status, 'pending') AS status FROM sitemap_urls s
+        LEFT JOIN pages p ON p.crawl_id = s.crawl_id AND p.url_key = s.url_key
+        WHERE s.crawl_id = ? AND s.url_key != ?
+          AND NOT EXISTS (SELECT 1 FROM edges e WHERE e.crawl_id = s.crawl_id AND e.target_key = s.url_key AND e.source_key != s.url_key)
+        ORDER BY s.rowid`
+      )
+      .all(crawlId, rootKey) as SitemapCoverage["orphans"];
+
+    const missing = this.db
+      .prepare(
+        `SELECT p.url, p.parent FROM pages p
+        WHERE p.crawl_id = ? AND p.status = 'ok'
+          AND NOT EXISTS (SELECT 1 FROM sitemap_urls s WHERE s.crawl_id = p.crawl_id AND s.url_key = p.url_key)
+        ORDER BY p.rowid`
+      )
+      .all(crawlId) as Pick<PageRow, "url" | "parent">[];
+
+    const counts = this.db
+      .prepare(
+        `SELECT
+          (SELECT COUNT(*) FROM sitemap_urls WHERE crawl_id = @crawlId) AS sitemapUrls,
+          (SELECT COUNT(*) FROM pages WHERE crawl_id = @crawlId AND status = 'ok') AS crawledPages`
+      )
+      .get({ crawlId }) as Pick<SitemapCoverage, "sitemapUrls" | "crawledPages">;
+
+    return {
+      ...counts,
+      orphans,
+      missingFromSitemap: missing.map((row) => ({ url: row.url, foundOnPage: row.parent || "ROOT" })),
+    };
+  }
+
+  // OK HTML pages that don't redirect, aren't noindex and aren't a duplicate of their canonical: what a regenerated sitemap.xml should list
+  getSitemapEntries(crawlId: string): { url: string; lastModified: string | null }[] {
+    return this.db
+      .prepare(
+        `SELECT url, last_modified AS lastModified FROM pages
+        WHERE crawl_id = ? AND status = 'ok' AND redirect_location IS NULL AND (content_type IS NULL OR content_type LIKE 'text/html%')
+          AND (robots IS NULL OR (robots NOT LIKE '%"noindex"%' AND robots NOT LIKE '%"none"%'))
+          AND (canonical_key IS NULL OR canonical_key = url_key)
+        ORDER BY depth, rowid`
+      )
+      .all(crawlId) as { url: string; lastModified: string | null }[];
+  }
+
+  getPages(crawlId: string): PageRow[] {
+    return this.db.prepare("SELECT * FROM pages WHERE crawl_id = ? ORDER BY rowid").all(crawlId) as PageRow[];
+  }
+
+  // Pending pages in discovery order = the crawl queue
+  getQueue(crawlId: string): QueueItem[] {
+    const rows = this.db
+      .prepare("SELECT url, parent, depth FROM pages WHERE crawl_id = ? AND status = 'pending' ORDER BY rowid")
+      .all(crawlId) as QueueItem[];
+    return rows;
+  }
+
+  // --- DERIVED VIEWS ---
+  // Every known URL (pending ones too) with its outgoing link count, in discovery order
+  getPageInventory(crawlId: string): PageInventoryItem[] {
+    const rows = this.db
+      .prepare(
+        `SELECT p.url, p.status, p.depth, p.parent, p.redirect_location, p.redirect_chain, p.content_type,
+          (SELECT COUNT(*) FROM edges e WHERE e.crawl_id = p.crawl_id AND e.source_key = p.url_key) AS links
+        FROM pages p WHERE p.crawl_id = ? ORDER BY p.rowid`
+      )
+      .all(crawlId) as (Pick<PageRow, "url" | "status" | "depth" | "parent" | "redirect_location" | "redirect_chain" | "content_type"> & {
+      links: number;
+    })[];
+
+    return rows.map((row) => ({
+      url: row.url,
+      status: row.status,
+      depth: row.depth,
+      parent: row.parent,
+      links: row.links,
+      redirectedTo: row.redirect_chain ? (JSON.parse(row.redirect_chain) as RedirectChain).finalUrl : row.redirect_location,
+      contentType: row.content_type,
+    }));
+  }
+
+  getStats(crawlId: string): Omit<JobStats, "skipped"> {
+    const skipped = this.db
+      .prepare(
+        `SELECT COALESCE(SUM(reason = 'robots'), 0) AS robotsSkipped, COALESCE(SUM(reason = 'rule'), 0) AS ruleSkipped
+        FROM skipped_urls WHERE crawl_id = ?`
+      )
+      .get(crawlId) as Pick<JobStats, "robotsSkipped" | "ruleSkipped">;
+    const external = this.db
+      .prepare(
+        `SELECT COUNT(*) AS external, COALESCE(SUM(status IN ('broken', 'soft-404', 'error')), 0) AS externalBroken
+        FROM external_links WHERE crawl_id = ?`
+      )
+      .get(crawlId) as Pick<JobStats, "external" | "externalBroken">;
+    const assets = this.db
+      .prepare(
+        `SELECT COUNT(*) AS assets, COALESCE(SUM(status IN ('broken', 'soft-404', 'error')), 0) AS assetsBroken
+        FROM assets WHERE crawl_id = ?`
+      )
+      .get(crawlId) as Pick<JobStats, "assets" | "assetsBroken">;
+
+    const row = this.db
+      .prepare(
+        `SELECT
+          COUNT(*) AS mapped,
+          COALESCE(SUM(status = 'pending'), 0) AS queued,
+          COALESCE(SUM(status != 'pending'), 0) AS visited,
+          COALESCE(SUM(status = 'ok'), 0) AS ok,
+          COALESCE(SUM(status IN ('broken', 'error')), 0) AS broken,
+          COALESCE(SUM(status = 'soft-404'), 0) AS soft404,
+          COALESCE(SUM(not_modified), 0) AS notModified
+        FROM pages WHERE crawl_id = ?`
+      )
+      .get(crawlId) as Omit<JobStats, "skipped" | "robotsSkipped" | "ruleSkipped" | "external" | "externalBroken" | "assets" | "assetsBroken">;
+    return { ...row, ...skipped, ...external, ...assets };
+  }
+
+  // Every inbound edge becomes a source, so a broken URL linked from 300 pages lists all 300.
+  // Most-linked first (biggest fix first), then in the order they were found.
+  getBrokenLinks(crawlId: string): BrokenReportItem[] {
+    const rows = this.db
+      .prepare(
+        `SELECT url_key, url, redirect_location, redirect_chain, soft_404, error, parent, status
+        FROM pages WHERE crawl_id = ? AND status IN ('broken', 'soft-404', 'error') ORDER BY fetched_at, rowid`
+      )
+      .all(crawlId) as Pick<PageRow, "url_key" | "url" | "redirect_location" | "redirect_chain" | "soft_404" | "error" | "parent" | "status">[];
+
+    const edges = this.db
+      .prepare(
+        `SELECT e.target_key, e.target_url, src.url AS source_url, e.anchor_text, e.rel, e.heading, e.selector, e.occurrences
+        FROM edges e
+        JOIN pages p ON p.crawl_id = e.crawl_id AND p.url_key = e.target_key
+        JOIN pages src ON src.crawl_id = e.crawl_id AND src.url_key = e.source_key
+        WHERE e.crawl_id = ? AND p.status IN ('broken', 'soft-404', 'error') ORDER BY e.created_at, e.rowid`
+      )
+      .all(crawlId) as ({ target_key: string; target_url: string; source_url: string } & EdgeContextRow)[];
+
+    const sources = new Map<string, LinkSource[]>();
+    edges.forEach((edge) => {
+      const context = toLinkContext(edge.target_url, edge);
+      const list = sources.get(edge.target_key) ?? [];
+      list.push({ page: edge.source_url, ...(context ? { context } : {}) });
+      sources.set(edge.target_key, list);
+    });
+
+    const items = rows.map((row): BrokenReportItem => {
+      // The discoverer first, whatever order the edges were written in
+      const list = (sources.get(row.url_key) ?? []).sort((a, b) => Number(b.page === row.parent) - Number(a.page === row.parent));
+      const linkContext = list[0]?.page === row.parent ? list[0].context : undefined;
+      return {
+        brokenLink: row.url,
+        redirectedTo: row.redirect_location,
+        ...(row.redirect_chain ? { redirectChain: JSON.parse(row.redirect_chain) as RedirectChain } : {}),
+        foundOnPage: row.parent || "ROOT",
+        sources: list,
+        status: row.status,
+        ...(row.soft_404 ? { soft404: JSON.parse(row.soft_404) as Soft404Verdict } : {}),
+        ...(row.error ? { error: JSON.parse(row.error) as FetchError } : {}),
+        ...(linkContext ? { linkContext } : {}),
+      };
+    });
+    return items.sort((a, b) => b.sources.length - a.sources.length);
+  }
+
+  // Every page that answered with a redirect, with its recorded chain
+  getRedirectChains(crawlId: string): { url: string; foundOnPage: string; chain: RedirectChain }[] {
+    const rows = this.db
+      .prepare("SELECT url, parent, redirect_chain FROM pages WHERE crawl_id = ? AND redirect_chain IS NOT NULL ORDER BY fetched_at, rowid")
+      .all(crawlId) as Pick<PageRow, "url" | "parent" | "redirect_chain">[];
+
+    return rows.map((row) => ({ url: row.url, foundOnPage: row.parent || "ROOT", chain: JSON.parse(row.redirect_chain!) as RedirectChain }));
+  }
+
+  getSiteMap(crawlId: string): SiteMap {
+    const siteMap: SiteMap = {};
+    this.getPages(crawlId).forEach((row) => {
+      siteMap[row.url_key] = {
+        url: row.url,
+        status: row.status,
+        children: [],
+        parent: row.parent,
+        depth: row.depth,
+        isLeaf: row.is_leaf === null ? undefined : row.is_leaf === 1,
+        redirectedTo: row.redirect_chain ? (JSON.parse(row.redirect_chain) as RedirectChain).finalUrl : row.redirect_location,
+      };
+    });
+
+    const edges = this.db.prepare("SELECT source_key, target_url FROM edges WHERE crawl_id = ? ORDER BY source_key, position").all(crawlId) as {
+      source_key: string;
+      target_url: string;
+    }[];
+    edges.forEach((edge) => siteMap[edge.source_key]?.children.push(edge.target_url));
+
+    return siteMap;
+  }
+
+  getCrawlResults(crawlId: string): CrawlResult[] {
+    return this.getPages(crawlId).map((row) => {
+      let status: CrawlResult["status"] = "active";
+      if (row.status === "pending") status = "queued";
+      else if (isBrokenStatus(row.status)) status = "broken";
+      else if (row.is_leaf === 1) status = "final";
+
+      return { url: row.url, status, redirectUrl: row.redirect_location ?? undefined, source: row.parent ?? "Start" };
+    });
+  }
+
+  // Same shape the pages used to download with "Save"
+  exportState(crawlId: string): CrawlerState {
+    return {
+      queue: this.getQueue(crawlId),
+      visited: this.getPages(crawlId)
+        .filter((row) => row.status !== "pending")
+        .map((row) => row.url_key),
+      siteMap: this.getSiteMap(crawlId),
+      brokenLinks: this.getBrokenLinks(crawlId),
+    };
+  }
+
+  // Load a downloaded CrawlerState file into a crawl
+  importState(crawlId: string, state: CrawlerState, normalize: (url: string) => string) {
+    const now = Date.now();
+    const insertPage = this.db.prepare(`
+      INSERT OR IGNORE INTO pages (crawl_id, url_key, url, status, parent, depth, is_leaf, redirect_location, discovered_at, fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertEdge = this.db.prepare(
+      "INSERT OR IGNORE INTO edges (crawl_id, source_key, target_key, target_url, position, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    const broken = new Map((state.brokenLinks || []).map((item) => [normalize(item.brokenLink), item]));
+
+    this.db.transaction(() => {
+      // Visited pages first (status from the saved site map or broken list, else "ok")
+      state.visited.forEach((url) => {
+        const key = normalize(url);
+        const node: PageNode | undefined = state.siteMap?.[key];
+        const brokenItem = broken.get(key);
+        const status = brokenItem?.status ?? (node && node.status !== "pending" ? node.status : "ok");
+        const parent = node?.parent ?? (brokenItem && brokenItem.foundOnPage !== "ROOT" ? brokenItem.foundOnPage : null);
+        insertPage.run(
+          crawlId,
+          key,
+          node?.url ?? url,
+          status,
+          parent,
+          node?.depth ?? 0,
+          node?.isLeaf ? 1 : null,
+          brokenItem?.redirectedTo ?? null,
+          now,
+          now
+        );
+        node?.children.forEach((child, position) => insertEdge.run(crawlId, key, normalize(child), child, position, now));
+      });
+
+      // Then the queue (duplicates of visited pages are ignored by the primary key; anything that isn't
+      // an http(s) URL would only fail the worker that picks it up)
+      (state.queue || [])
+        .filter((item) => isQueueableUrl(item?.url))
+        .forEach((item) => {
+          insertPage.run(crawlId, normalize(item.url), item.url, "pending", item.parent, item.depth ?? 0, null, null, now, null);
+        });
+    })();
+  }
+}
+
+const globalForStore = globalThis as unknown as { crawlStore?: CrawlStore };
+
+export function getCrawlStore(): CrawlStore {
+  return globalForStore.crawlStore ?? (globalForStore.crawlStore = new CrawlStore(getDb()));
+}
@@ -0,0 +1,195 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// SQLite file on disk; override with CRAWLER_DB_PATH (":memory:" works for throwaway runs)
+const DB_PATH = process.env.CRAWLER_DB_PATH || path.join(process.cwd(), "data", "crawler.db");
+
+// --- SCHEMA ---
+// pages: one row per URL per crawl ("pending" rows are the queue)
+// edges: every link found on a page (source -> target), including already-seen targets, with where it sits on the page
+// sitemap_urls: in-scope URLs listed in the site's sitemap.xml (crawls seeded from the sitemap)
+// skipped_urls: discovered URLs the crawl deliberately did not fetch (blocked by robots.txt, or by a URL rule)
+// external_links: unique outbound URLs and their check result (status NULL = not checked yet)
+// external_sources: every page an outbound URL was found on
+// assets / asset_sources: the same for images, scripts, stylesheets and downloads (asset audit)
+// alternates: the hreflang alternates each fetched page declares, in page order
+// navigation_links: internal URLs linked from the site's menus, with the first page they were seen on
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS crawls (
+    id TEXT PRIMARY KEY,
+    start_url TEXT NOT NULL,
+    options TEXT NOT NULL,
+    state TEXT NOT NULL,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pages (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    parent TEXT,
+    depth INTEGER NOT NULL DEFAULT 0,
+    is_leaf INTEGER,
+    redirect_location TEXT,
+    content_type TEXT,
+    last_modified TEXT,
+    etag TEXT,
+    not_modified INTEGER,
+    redirect_chain TEXT,
+    soft_404 TEXT,
+    error TEXT,
+    canonical TEXT,
+    canonical_key TEXT,
+    robots TEXT,
+    discovered_at INTEGER NOT NULL,
+    fetched_at INTEGER,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+  CREATE INDEX IF NOT EXISTS pages_status ON pages (crawl_id, status);
+
+  CREATE TABLE IF NOT EXISTS edges (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    source_key TEXT NOT NULL,
+    target_key TEXT NOT NULL,
+    target_url TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    anchor_text TEXT,
+    rel TEXT,
+    heading TEXT,
+    selector TEXT,
+    occurrences INTEGER,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (crawl_id, source_key, target_key)
+  );
+  CREATE INDEX IF NOT EXISTS edges_target ON edges (crawl_id, target_key);
+
+  CREATE TABLE IF NOT EXISTS skipped_urls (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    rule TEXT,
+    source_url TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS sitemap_urls (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS external_links (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    status TEXT,
+    label TEXT,
+    status_code INTEGER,
+    final_url TEXT,
+    error TEXT,
+    discovered_at INTEGER NOT NULL,
+    checked_at INTEGER,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS external_sources (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    PRIMARY KEY (crawl_id, url_key, source_url)
+  );
+
+  CREATE TABLE IF NOT EXISTS assets (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    status TEXT,
+    label TEXT,
+    status_code INTEGER,
+    content_type TEXT,
+    error TEXT,
+    discovered_at INTEGER NOT NULL,
+    checked_at INTEGER,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS asset_sources (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    PRIMARY KEY (crawl_id, url_key, source_url)
+  );
+
+  CREATE TABLE IF NOT EXISTS alternates (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    page_key TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    hreflang TEXT NOT NULL,
+    url TEXT NOT NULL,
+    url_key TEXT NOT NULL,
+    PRIMARY KEY (crawl_id, page_key, position)
+  );
+
+  CREATE TABLE IF NOT EXISTS navigation_links (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    url_key TEXT NOT NULL,
+    url TEXT NOT NULL,
+    source_url TEXT NOT NULL,
+    PRIMARY KEY (crawl_id, url_key)
+  );
+`;
+
+// Columns added after a table was first created (CREATE TABLE IF NOT EXISTS won't add them to old files)
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: "pages", column: "content_type", definition: "TEXT" },
+  { table: "pages", column: "last_modified", definition: "TEXT" },
+  { table: "pages", column: "redirect_chain", definition: "TEXT" },
+  { table: "pages", column: "soft_404", definition: "TEXT" },
+  { table: "pages", column: "error", definition: "TEXT" },
+  { table: "pages", column: "etag", definition: "TEXT" },
+  { table: "pages", column: "not_modified", definition: "INTEGER" },
+  { table: "pages", column: "canonical", definition: "TEXT" },
+  { table: "pages", column: "canonical_key", definition: "TEXT" },
+  { table: "pages", column: "robots", definition: "TEXT" },
+  { table: "edges", column: "anchor_text", definition: "TEXT" },
+  { table: "edges", column: "rel", definition: "TEXT" },
+  { table: "edges", column: "heading", definition: "TEXT" },
+  { table: "edges", column: "selector", definition: "TEXT" },
+  { table: "edges", column: "occurrences", definition: "INTEGER" },
+  { table: "external_links", column: "error", definition: "TEXT" },
+  { table: "assets", column: "error", definition: "TEXT" },
+  { table: "skipped_urls", column: "rule", definition: "TEXT" },
+];
+
+function migrate(db: Database.Database) {
+  ADDED_COLUMNS.forEach(({ table, column, definition }) => {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some((existing) => existing.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  });
+}
+
+function open(): Database.Database {
+  if (DB_PATH !== ":memory:") fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  migrate(db);
+  return db;
+}
+
+// One connection per process (kept on globalThis so `next dev` reloads don't leak handles)
+const globalForDb = globalThis as unknown as { crawlerDb?: Database.Database };
+
+export function getDb(): Database.Database {
+  return globalForDb.crawlerDb ?? (globalForDb.crawlerDb = open());
+}